@@ -1,3 +1,17 @@
 export * from './lib/mcp-client.js'
 export * from './types.js'
 export * from './lib/tools.js'
+export * from './lib/resources.js'
+export * from './lib/prompts.js'
+export * from './lib/auth.js'
+export * from './lib/rate-limit.js'
+export * from './lib/session-store.js'
+export * from './lib/event-store.js'
+export * from './lib/resumable-sse.js'
+export * from './lib/client-requests.js'
+export * from './lib/hooks.js'
+export * from './lib/metrics.js'
+export * from './lib/logger.js'
+export * from './lib/admin.js'
+export * from './lib/session-state.js'
+export * from './lib/on-signal.js'
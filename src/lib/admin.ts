@@ -0,0 +1,33 @@
+import type { Implementation } from '@modelcontextprotocol/sdk/types.js'
+import type { AuthenticateFn } from './auth.js'
+import type { MCPTransportType } from './mcp-client.js'
+
+/**
+ * An active session, as returned by MCPClient.getSessions() and the admin sessions route
+ */
+export interface MCPSessionInfo {
+  id: string
+  transport: MCPTransportType
+  principalId?: string // Caller that opened the session, when authentication is enabled
+  clientInfo?: Implementation // Client name and version; missing until the client has initialized
+  connectedAt: string // ISO 8601
+  lastActivityAt: string // Last message received from the client, ISO 8601
+  toolCalls: number // tools/call requests handled so far
+  toolErrors: number // Calls that failed, timed out, returned isError or were denied or rate limited
+  activeToolCalls: number
+}
+
+/**
+ * MCPClientOptions.admin
+ */
+export interface MCPAdminOptions {
+  authenticate: AuthenticateFn // Guard for the admin routes; MCPClientOptions.authenticate is not used for them
+  path?: string // Route relative to the endpoint (default: '/admin')
+}
+
+/**
+ * MCPClientOptions.health
+ */
+export interface MCPHealthOptions {
+  path?: string // Route relative to the endpoint (default: '/health')
+}
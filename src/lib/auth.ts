@@ -0,0 +1,247 @@
+import type { Request } from 'express'
+import {
+  createHmac,
+  createPublicKey,
+  timingSafeEqual,
+  verify as cryptoVerify,
+  KeyObject,
+} from 'node:crypto'
+import { McpError } from '@modelcontextprotocol/sdk/types.js'
+
+// JSON-RPC error code for tools the caller is not authorized to use
+export const TOOL_ACCESS_DENIED = -32003
+
+/**
+ * Authenticated caller attached to an MCP session and to tool handler contexts
+ */
+export interface AuthPrincipal {
+  id: string // Stable subject identifier (e.g. the JWT `sub` claim)
+  scopes?: string[]
+  claims?: Record<string, unknown>
+  [key: string]: any
+}
+
+/**
+ * Authentication hook run on every MCP route.
+ * Return a principal to accept the request, or null/undefined (or throw an AuthError) to reject it.
+ */
+export type AuthenticateFn = (
+  req: Request,
+) =>
+  | AuthPrincipal
+  | null
+  | undefined
+  | Promise<AuthPrincipal | null | undefined>
+
+/**
+ * Error thrown by authenticators to reject a request with a specific status
+ */
+export class AuthError extends Error {
+  status: 401 | 403
+  code: string // OAuth 2.0 bearer error code, used in the WWW-Authenticate header
+
+  constructor(message: string, status: 401 | 403 = 401, code?: string) {
+    super(message)
+    this.name = 'AuthError'
+    this.status = status
+    this.code =
+      code || (status === 403 ? 'insufficient_scope' : 'invalid_token')
+  }
+}
+
+/**
+ * Error returned to the client when requiredScopes or canAccess rejects a tool call
+ */
+export class ToolAccessError extends McpError {
+  toolName: string
+
+  constructor(toolName: string) {
+    const message = `Access denied to tool '${toolName}'`
+    super(TOOL_ACCESS_DENIED, message)
+    this.name = 'ToolAccessError'
+    this.toolName = toolName
+    // The client prefixes "MCP error <code>:" itself; don't send it twice
+    this.message = message
+  }
+}
+
+/**
+ * Build the WWW-Authenticate header value for a rejected request
+ */
+export function buildWwwAuthenticate(realm: string, error?: AuthError): string {
+  const parts = [`realm="${realm}"`]
+  if (error) {
+    parts.push(`error="${error.code}"`)
+    parts.push(`error_description="${error.message.replace(/"/g, "'")}"`)
+  }
+  return `Bearer ${parts.join(', ')}`
+}
+
+/**
+ * Extract the token from an `Authorization: Bearer <token>` header
+ */
+export function getBearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization
+  if (!header) return undefined
+  const [scheme, token] = header.split(' ')
+  return scheme?.toLowerCase() === 'bearer' && token ? token.trim() : undefined
+}
+
+export type JwtAlgorithm = 'HS256' | 'RS256'
+
+export interface JwtVerifyOptions {
+  secret?: string | Buffer // Shared secret for HS256
+  publicKey?: string | Buffer | KeyObject // PEM public key for RS256
+  algorithms?: JwtAlgorithm[] // Defaults to the algorithms the provided keys support
+  issuer?: string
+  audience?: string | string[]
+  clockToleranceSec?: number // Allowed clock skew for exp/nbf (default: 5)
+}
+
+export interface JwtAuthOptions extends JwtVerifyOptions {
+  // Map verified claims to a principal (default: sub + scope/scp claims).
+  // Tokens are rejected when the principal has no id.
+  toPrincipal?: (payload: Record<string, unknown>) => AuthPrincipal
+}
+
+/**
+ * Verify a compact JWS token signed with HS256 or RS256 using local keys.
+ * Throws an AuthError when the token is malformed, has a bad signature or invalid claims.
+ *
+ * @returns The decoded payload
+ */
+export function verifyJwt(
+  token: string,
+  options: JwtVerifyOptions,
+): Record<string, unknown> {
+  const segments = token.split('.')
+  if (segments.length !== 3) {
+    throw new AuthError('Malformed token')
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = segments
+
+  let header: { alg?: string }
+  let payload: Record<string, unknown>
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString())
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString())
+  } catch {
+    throw new AuthError('Malformed token')
+  }
+
+  const allowed =
+    options.algorithms ||
+    ([
+      ...(options.secret ? ['HS256'] : []),
+      ...(options.publicKey ? ['RS256'] : []),
+    ] as JwtAlgorithm[])
+  const alg = header.alg as JwtAlgorithm
+  if (!allowed.includes(alg)) {
+    throw new AuthError(`Unsupported token algorithm: ${header.alg}`)
+  }
+
+  const signingInput = `${encodedHeader}.${encodedPayload}`
+  const signature = Buffer.from(encodedSignature, 'base64url')
+  let valid = false
+  if (alg === 'HS256') {
+    if (!options.secret) throw new AuthError('No secret configured for HS256')
+    const expected = createHmac('sha256', options.secret)
+      .update(signingInput)
+      .digest()
+    valid =
+      expected.length === signature.length &&
+      timingSafeEqual(expected, signature)
+  } else {
+    if (!options.publicKey) {
+      throw new AuthError('No public key configured for RS256')
+    }
+    const key =
+      options.publicKey instanceof KeyObject
+        ? options.publicKey
+        : createPublicKey(options.publicKey)
+    valid = cryptoVerify(
+      'RSA-SHA256',
+      Buffer.from(signingInput),
+      key,
+      signature,
+    )
+  }
+  if (!valid) {
+    throw new AuthError('Invalid token signature')
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const tolerance = options.clockToleranceSec ?? 5
+  if (typeof payload.exp === 'number' && now - tolerance >= payload.exp) {
+    throw new AuthError('Token expired')
+  }
+  if (typeof payload.nbf === 'number' && now + tolerance < payload.nbf) {
+    throw new AuthError('Token not yet valid')
+  }
+  if (options.issuer && payload.iss !== options.issuer) {
+    throw new AuthError('Invalid token issuer')
+  }
+  if (options.audience) {
+    const expected = Array.isArray(options.audience)
+      ? options.audience
+      : [options.audience]
+    const actual = Array.isArray(payload.aud) ? payload.aud : [payload.aud]
+    if (!actual.some((aud) => expected.includes(aud as string))) {
+      throw new AuthError('Invalid token audience')
+    }
+  }
+
+  return payload
+}
+
+/**
+ * Default mapping of JWT claims to a principal
+ */
+function claimsToPrincipal(payload: Record<string, unknown>): AuthPrincipal {
+  let scopes: string[] = []
+  if (typeof payload.scope === 'string') {
+    scopes = payload.scope.split(' ').filter(Boolean)
+  } else if (Array.isArray(payload.scp)) {
+    scopes = payload.scp.map(String)
+  }
+  return {
+    id: String(payload.sub ?? ''),
+    scopes,
+    claims: payload,
+  }
+}
+
+/**
+ * Creates an authenticator that accepts `Authorization: Bearer <jwt>` tokens
+ * signed with HS256 (shared secret) or RS256 (PEM public key).
+ *
+ * @param options Keys and claim requirements
+ * @returns An authenticate function for MCPClientOptions.authenticate
+ */
+export function jwtAuth(options: JwtAuthOptions): AuthenticateFn {
+  if (!options.secret && !options.publicKey) {
+    throw new Error('jwtAuth requires a secret (HS256) or publicKey (RS256)')
+  }
+  const toPrincipal = options.toPrincipal || claimsToPrincipal
+  // Parse the PEM key once instead of on every request
+  const verifyOptions: JwtVerifyOptions = {
+    ...options,
+    publicKey:
+      options.publicKey && !(options.publicKey instanceof KeyObject)
+        ? createPublicKey(options.publicKey)
+        : options.publicKey,
+  }
+
+  return (req) => {
+    const token = getBearerToken(req)
+    if (!token) {
+      return null // No credentials: plain 401 challenge
+    }
+    const principal = toPrincipal(verifyJwt(token, verifyOptions))
+    // An empty id would make every such caller share one identity
+    if (!principal.id) {
+      throw new AuthError('Token has no subject')
+    }
+    return principal
+  }
+}
@@ -0,0 +1,58 @@
+import {
+  CreateMessageRequest,
+  CreateMessageResult,
+} from '@modelcontextprotocol/sdk/types.js'
+
+// Default time to wait for the client to answer a server-initiated request
+export const DEFAULT_CLIENT_REQUEST_TIMEOUT_MS = 60000
+
+/**
+ * Error thrown when a tool asks the client for something it did not declare support for
+ */
+export class ClientCapabilityError extends Error {
+  capability: string
+
+  constructor(capability: string) {
+    super(`The connected client does not support ${capability}`)
+    this.name = 'ClientCapabilityError'
+    this.capability = capability
+  }
+}
+
+/**
+ * Error thrown when the client does not answer a server-initiated request in time
+ */
+export class ClientRequestTimeoutError extends Error {
+  method: string
+  timeoutMs: number
+
+  constructor(method: string, timeoutMs: number) {
+    super(`Client did not answer ${method} within ${timeoutMs}ms`)
+    this.name = 'ClientRequestTimeoutError'
+    this.method = method
+    this.timeoutMs = timeoutMs
+  }
+}
+
+// Parameters for context.sample (sampling/createMessage)
+export type SampleParams = CreateMessageRequest['params']
+
+// The client's sampling response
+export type SampleResult = CreateMessageResult
+
+// Options shared by requests sent back to the client
+export type ClientRequestOptions = {
+  timeoutMs?: number // Default: DEFAULT_CLIENT_REQUEST_TIMEOUT_MS
+}
+
+/**
+ * Outcome of context.elicit
+ * - 'accept': the user submitted content, already validated against the schema
+ * - 'decline' / 'cancel': the user refused or dismissed the request
+ * - 'unsupported': the client did not declare the elicitation capability
+ */
+export type ElicitOutcome<T> =
+  | { action: 'accept'; content: T }
+  | { action: 'decline' }
+  | { action: 'cancel' }
+  | { action: 'unsupported' }
@@ -0,0 +1,82 @@
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import type {
+  EventStore,
+  EventId,
+  StreamId,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+
+// The SDK interface, shared by both transports for Last-Event-ID replay
+export type { EventStore, EventId, StreamId }
+
+export interface MemoryEventStoreOptions {
+  maxEventsPerStream?: number // Replay buffer size per stream (default: 100)
+  maxStreams?: number // Oldest streams are dropped beyond this (default: 1000)
+}
+
+/**
+ * In-process EventStore keeping a bounded replay buffer per stream.
+ * Event ids are `<streamId>_<sequence>`, so a replay finds its stream without an index.
+ */
+export class MemoryEventStore implements EventStore {
+  private maxEventsPerStream: number
+  private maxStreams: number
+  private streams = new Map<
+    StreamId,
+    { nextSeq: number; events: Array<{ seq: number; message: JSONRPCMessage }> }
+  >()
+
+  constructor(options: MemoryEventStoreOptions = {}) {
+    this.maxEventsPerStream = options.maxEventsPerStream ?? 100
+    this.maxStreams = options.maxStreams ?? 1000
+  }
+
+  async storeEvent(
+    streamId: StreamId,
+    message: JSONRPCMessage,
+  ): Promise<EventId> {
+    let stream = this.streams.get(streamId)
+    if (!stream) {
+      stream = { nextSeq: 1, events: [] }
+      this.streams.set(streamId, stream)
+      // Maps iterate in insertion order, so the first key is the oldest stream
+      if (this.streams.size > this.maxStreams) {
+        this.streams.delete(this.streams.keys().next().value!)
+      }
+    }
+    const seq = stream.nextSeq++
+    stream.events.push({ seq, message })
+    if (stream.events.length > this.maxEventsPerStream) {
+      stream.events.shift()
+    }
+    return `${streamId}_${seq}`
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    {
+      send,
+    }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const separator = lastEventId.lastIndexOf('_')
+    const streamId = lastEventId.slice(0, separator)
+    const lastSeq = Number(lastEventId.slice(separator + 1))
+    const stream = this.streams.get(streamId)
+    // Refuse a partial replay rather than silently skipping evicted events
+    if (
+      separator < 0 ||
+      !stream ||
+      !Number.isInteger(lastSeq) ||
+      lastSeq >= stream.nextSeq ||
+      (stream.events.length > 0 && lastSeq < stream.events[0].seq - 1)
+    ) {
+      throw new Error(`Cannot replay events after ${lastEventId}`)
+    }
+    // Copy first: sends may await while new events are stored
+    for (const { seq, message } of [...stream.events]) {
+      if (seq > lastSeq) {
+        await send(`${streamId}_${seq}`, message)
+      }
+    }
+    return streamId
+  }
+}
@@ -0,0 +1,59 @@
+import type {
+  ClientCapabilities,
+  Implementation,
+} from '@modelcontextprotocol/sdk/types.js'
+import type { AuthPrincipal } from './auth.js'
+import type { MCPTransportType } from './mcp-client.js'
+
+export interface SessionStartEvent {
+  sessionId: string
+  transport: MCPTransportType
+  principal?: AuthPrincipal
+}
+
+export interface SessionEndEvent extends SessionStartEvent {
+  durationMs: number // Time since the session was opened
+}
+
+export interface InitializeEvent {
+  sessionId: string
+  clientInfo?: Implementation // Client name and version from the initialize request
+  capabilities?: ClientCapabilities
+}
+
+export interface ToolCallStartEvent {
+  sessionId?: string
+  toolName: string
+  arguments: Record<string, unknown>
+  principal?: AuthPrincipal
+}
+
+// `denied`: rejected by the tool's access check; `rate_limited`: rejected by MCPClientOptions.rateLimit
+export type ToolCallOutcome = 'success' | 'error' | 'denied' | 'rate_limited'
+
+export interface ToolCallEndEvent extends ToolCallStartEvent {
+  durationMs: number
+  isError: boolean // Any outcome other than `success`
+  outcome: ToolCallOutcome
+  error?: unknown // Set when the handler threw or was aborted, or the call was rejected
+}
+
+export interface MCPErrorEvent {
+  message: string // Same text as the console log line
+  error: unknown
+  sessionId?: string
+}
+
+/**
+ * Lifecycle hooks for analytics, billing or alerting.
+ * Hooks are not awaited and their errors are logged, so they can't slow down or break a request.
+ */
+export interface MCPClientHooks {
+  onSessionStart?: (event: SessionStartEvent) => void | Promise<void>
+  onSessionEnd?: (event: SessionEndEvent) => void | Promise<void>
+  // Fires once the client has sent notifications/initialized
+  onInitialize?: (event: InitializeEvent) => void | Promise<void>
+  onToolCallStart?: (event: ToolCallStartEvent) => void | Promise<void>
+  onToolCallEnd?: (event: ToolCallEndEvent) => void | Promise<void>
+  onError?: (event: MCPErrorEvent) => void | Promise<void>
+}
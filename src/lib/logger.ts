@@ -0,0 +1,116 @@
+import type { Logger } from '../types.js'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+// Structured context passed as the second argument of every Logger call
+export type LogFields = Record<string, unknown>
+
+// Masked unless MCPClientOptions.redact.headers says otherwise
+export const DEFAULT_REDACT_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+]
+
+/**
+ * MCPClientOptions.redact
+ */
+export interface RedactOptions {
+  headers?: string[] // Header names to mask, case-insensitive (default: DEFAULT_REDACT_HEADERS)
+  paths?: string[] // Dot paths into tool arguments; `*` matches any key (e.g. 'password', 'auth.*.token')
+  censor?: string // Replacement value (default: '[REDACTED]')
+}
+
+/**
+ * Console logger used when no logger option is given.
+ * Matches the historical output: debug/info only with `debug`, warnings and errors always.
+ */
+export function consoleLogger(debug: boolean): Logger {
+  const verbose = (...args: any[]) => {
+    if (debug) console.log('[MCPClient]', ...args)
+  }
+  return {
+    debug: verbose,
+    info: verbose,
+    warn: (...args: any[]) => console.warn('[MCPClient]', ...args),
+    error: (...args: any[]) => console.error('[MCPClient]', ...args),
+  }
+}
+
+/**
+ * Copy `value` with the property at `path` replaced by `censor`.
+ * Only the objects along the path are copied; tool arguments are never mutated.
+ */
+function redactPath(value: unknown, path: string[], censor: string): unknown {
+  if (path.length === 0) return censor
+  if (value === null || typeof value !== 'object') return value
+  const [key, ...rest] = path
+  const copy: Record<string, unknown> = Array.isArray(value)
+    ? ([...value] as unknown as Record<string, unknown>)
+    : { ...(value as Record<string, unknown>) }
+  const keys = key === '*' ? Object.keys(copy) : [key]
+  for (const k of keys) {
+    if (Object.prototype.hasOwnProperty.call(copy, k)) {
+      copy[k] = redactPath(copy[k], rest, censor)
+    }
+  }
+  return copy
+}
+
+/**
+ * Masks secrets in log fields: `headers` by header name and `args` by argument path
+ */
+export class Redactor {
+  private headerNames: Set<string>
+  private paths: string[][]
+  private censor: string
+
+  constructor(options: RedactOptions = {}) {
+    this.headerNames = new Set(
+      (options.headers ?? DEFAULT_REDACT_HEADERS).map((h) => h.toLowerCase()),
+    )
+    this.paths = (options.paths || []).map((p) => p.split('.'))
+    this.censor = options.censor ?? '[REDACTED]'
+  }
+
+  headers(headers: Record<string, unknown>): Record<string, unknown> {
+    const copy: Record<string, unknown> = {}
+    for (const [name, value] of Object.entries(headers)) {
+      copy[name] = this.headerNames.has(name.toLowerCase())
+        ? this.censor
+        : value
+    }
+    return copy
+  }
+
+  /**
+   * Copy of `headers` without the redacted ones, for headers that leave the process
+   */
+  omitHeaders(headers: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers).filter(
+        ([name]) => !this.headerNames.has(name.toLowerCase()),
+      ),
+    )
+  }
+
+  args(args: unknown): unknown {
+    return this.paths.reduce(
+      (value, path) => redactPath(value, path, this.censor),
+      args,
+    )
+  }
+
+  fields(fields: LogFields): LogFields {
+    const copy = { ...fields }
+    if (copy.headers && typeof copy.headers === 'object') {
+      copy.headers = this.headers(copy.headers as Record<string, unknown>)
+    }
+    if (copy.args !== undefined) {
+      copy.args = this.args(copy.args)
+    }
+    return copy
+  }
+}
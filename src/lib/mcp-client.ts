@@ -3,74 +3,343 @@ import {
   Request,
   Response,
   RequestHandler,
-  raw as expressRaw, // Import raw body parser
+  json as expressJson, // JSON body parser for the Streamable HTTP endpoint
 } from 'express'
 import { Server } from '@modelcontextprotocol/sdk/server/index.js'
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
-import { Tool, ToolSchema } from '@modelcontextprotocol/sdk/types.js' // Import ToolSchema
-import { z } from 'zod'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import {
+  Tool,
+  ToolSchema,
+  McpError,
+  ErrorCode,
+  ServerCapabilities,
+  LoggingLevel,
+  CreateMessageResultSchema,
+  ElicitResultSchema,
+  ListRootsResultSchema,
+  RootsListChangedNotificationSchema,
+  Root,
+  ServerNotification,
+  ServerRequest,
+  RequestId,
+  JSONRPCMessage,
+  Implementation,
+  ClientCapabilities,
+  isInitializeRequest,
+} from '@modelcontextprotocol/sdk/types.js' // Import ToolSchema
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js'
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import { z, ZodObject, ZodRawShape } from 'zod'
+import { zodToJsonSchema } from 'zod-to-json-schema'
 import { AsyncLocalStorage } from 'node:async_hooks' // Import AsyncLocalStorage
+import { randomUUID } from 'node:crypto'
+import {
+  ResourceImpl,
+  ResourceTemplateImpl,
+  isResourceTemplate,
+} from './resources.js'
+import { PromptImpl } from './prompts.js'
+import {
+  AuthenticateFn,
+  AuthError,
+  AuthPrincipal,
+  buildWwwAuthenticate,
+  ToolAccessError,
+} from './auth.js'
+import { RateLimiter, RateLimitError, RateLimitOptions } from './rate-limit.js'
+import { RoutedMessage, SessionStore } from './session-store.js'
+import { EventStore } from './event-store.js'
+import { ResumableSSEServerTransport } from './resumable-sse.js'
+import { MCPClientHooks, ToolCallOutcome, ToolCallStartEvent } from './hooks.js'
+import { MCPMetrics, MCPMetricsOptions, MetricsRegistry } from './metrics.js'
+import {
+  consoleLogger,
+  LogFields,
+  LogLevel,
+  RedactOptions,
+  Redactor,
+} from './logger.js'
+import { Logger } from '../types.js'
+import { MCPAdminOptions, MCPHealthOptions, MCPSessionInfo } from './admin.js'
+import {
+  bindSessionState,
+  MemorySessionStateStore,
+  SessionState,
+  SessionStateOptions,
+  SessionStateStore,
+} from './session-state.js'
+import {
+  ClientCapabilityError,
+  ClientRequestOptions,
+  ClientRequestTimeoutError,
+  DEFAULT_CLIENT_REQUEST_TIMEOUT_MS,
+  ElicitOutcome,
+  SampleParams,
+  SampleResult,
+} from './client-requests.js'
+
+// JSON-RPC error code for unknown resource URIs (per MCP spec)
+const RESOURCE_NOT_FOUND = -32002
+
+/**
+ * The HTTP request that carried the JSON-RPC message being handled
+ */
+interface RequestState {
+  headers: Record<string, string>
+  req?: Request // Absent for messages routed from another replica
+}
+
+// Create an AsyncLocalStorage instance to hold the current HTTP request
+const requestStorage = new AsyncLocalStorage<RequestState>()
+
+/**
+ * Fields MCPClient sets on every tool handler context
+ */
+export interface BaseToolContext {
+  headers?: Record<string, string>
+  principal?: AuthPrincipal // Set when MCPClientOptions.authenticate is used
+  sessionId?: string
+  requestId?: RequestId // JSON-RPC id of the request being handled
+  clientInfo?: Implementation // Client name and version from initialize
+  clientCapabilities?: ClientCapabilities // Capabilities the client declared in initialize
+  remoteAddress?: string // req.ip of the HTTP request carrying the message
+  req?: Request // That HTTP request (absent for messages routed from another replica)
+  locals?: Record<string, any> // Its res.locals, e.g. values set by earlier Express middleware
+  session?: SessionState // Key/value state kept between calls of this session, cleared when it closes
+  signal?: AbortSignal // Aborted on client cancellation, session disconnect or timeout
+  // Send notifications/progress to the caller (no-op if the client sent no progressToken)
+  reportProgress?: (
+    progress: number,
+    total?: number,
+    message?: string,
+  ) => Promise<void>
+  // Send notifications/message to the caller, filtered by the level it set via logging/setLevel
+  log?: (level: LoggingLevel, data: unknown) => Promise<void>
+  // Ask the calling client's LLM for a completion (sampling/createMessage)
+  sample?: (
+    params: SampleParams,
+    options?: ClientRequestOptions,
+  ) => Promise<SampleResult>
+  // Ask the user for input mid-call (elicitation/create), validated against a flat Zod object
+  elicit?: <TShape extends ZodRawShape>(
+    message: string,
+    schema: ZodObject<TShape>,
+    options?: ClientRequestOptions,
+  ) => Promise<ElicitOutcome<z.infer<ZodObject<TShape>>>>
+  // Workspace roots exposed by the client (roots/list), cached for the session
+  listRoots?: (options?: ClientRequestOptions) => Promise<Root[]>
+  [key: string]: any
+}
+
+/**
+ * Context passed to tool handlers: the base fields plus whatever
+ * MCPClientOptions.createContext returns (typed by TExtra)
+ */
+export type ToolContext<TExtra extends object = {}> = BaseToolContext & TExtra
+
+/**
+ * What MCPClientOptions.createContext gets for each MCP request.
+ * Messages routed from another replica only carry headers and the principal.
+ */
+export interface CreateContextInput {
+  headers: Record<string, string> // For routed messages, without the redact.headers ones
+  principal?: AuthPrincipal
+  sessionId?: string
+  req?: Request // The Express request, absent for routed messages
+}
+
+export type CreateContextFn<TContext extends object> = (
+  input: CreateContextInput,
+) => TContext | Promise<TContext>
+
+/**
+ * Result returned by tool handlers
+ */
+export type ToolResult = {
+  content: Array<
+    | { type: string; text?: string }
+    | { type: string; data?: string; mimeType?: string }
+  >
+  isError?: boolean
+}
+
+/**
+ * State shared by the middleware wrapping one tools/call
+ */
+export interface ToolCallContext {
+  toolName: string
+  args: Record<string, any> // Can be rewritten before next() (e.g. redaction or defaults)
+  context: ToolContext
+  result?: ToolResult // Set once next() resolves; set it without calling next() to short-circuit
+}
 
-// Create an AsyncLocalStorage instance to hold request headers
-const requestStorage = new AsyncLocalStorage<Record<string, string>>()
+/**
+ * Koa-style tool call middleware. `next()` runs the rest of the chain and the handler
+ * (it can be called again, e.g. to retry); skip it and set `ctx.result` to short-circuit.
+ */
+export type ToolMiddleware = (
+  ctx: ToolCallContext,
+  next: () => Promise<void>,
+) => Promise<void>
 
 /**
  * MCPClient tool implementation type
  */
-export interface ToolImpl<T = any> {
+export interface ToolImpl<T = any, TContext extends object = {}> {
   name: string
   description: string
   // Use the correct SDK key: inputSchema (camelCase)
   inputSchema: Tool['inputSchema']
-  handler: (
-    args: T,
-    context?: {
-      headers?: Record<string, string>
-      [key: string]: any
-    },
-  ) => Promise<{
-    content: Array<
-      | { type: string; text?: string }
-      | { type: string; data?: string; mimeType?: string }
-    >
-    isError?: boolean
-  }>
+  requiredScopes?: string[] // Principal must hold every scope to list or call the tool
+  canAccess?: (context: ToolContext<TContext>) => boolean | Promise<boolean> // Custom access check
+  timeoutMs?: number // Abort the call (and return an error) after this many milliseconds
+  middleware?: ToolMiddleware[] // Runs inside the MCPClient.use() middleware, closest to the handler
+  handler: (args: T, context?: ToolContext<TContext>) => Promise<ToolResult>
 }
 
+/**
+ * Transports that MCPClient can mount on its router
+ * - 'sse': legacy `GET /sse` + `POST /message?sessionId=` pair
+ * - 'streamable-http': single endpoint (POST/GET/DELETE) using the `Mcp-Session-Id` header
+ */
+export type MCPTransportType = 'sse' | 'streamable-http'
+
 /**
  * MCPClient options
  */
-export interface MCPClientOptions {
+export interface MCPClientOptions<TContext extends object = {}> {
   endpoint: string // Make endpoint required for clarity
-  tools: ToolImpl[]
+  tools: ToolImpl<any, TContext>[]
+  createContext?: CreateContextFn<TContext> // Per-request values merged into every handler context
+  resources?: Array<ResourceImpl | ResourceTemplateImpl> // Static resources and URI templates
+  prompts?: PromptImpl[] // Reusable prompt templates
   serverName?: string
   serverVersion?: string
   debug?: boolean // Add debug option to control logging
+  logger?: Logger // Receives `(message, fields)` for every log line (default: console, gated by debug)
+  redact?: RedactOptions // Headers and tool argument paths masked in log fields
+  health?: boolean | MCPHealthOptions // Serve an unauthenticated health check (default path: '/health')
+  admin?: MCPAdminOptions // Serve session listing/termination routes behind their own guard
+  transports?: MCPTransportType[] // Transports to mount (default: ['sse'])
+  mcpPath?: string // Streamable HTTP path relative to the endpoint (default: '/mcp')
+  enableJsonResponse?: boolean // Streamable HTTP: answer POSTs with plain JSON instead of an SSE stream
+  authenticate?: AuthenticateFn // Runs on every MCP route; see jwtAuth() for a built-in verifier
+  authRealm?: string // Realm advertised in WWW-Authenticate (default: serverName)
+  rateLimit?: RateLimitOptions // Token buckets / in-flight quotas for tools/call
+  sessionStore?: SessionStore // Route POST /message to the replica holding the SSE stream
+  eventStore?: EventStore // Enables resumable streams (event ids + Last-Event-ID replay), see MemoryEventStore
+  resumeWindowMs?: number // How long a dropped SSE session waits for a reconnect (default: 60000)
+  pingIntervalMs?: number // SSE keep-alive comment interval, 0 disables it (default: 30000)
+  sessionLimits?: SessionLimitOptions // Concurrent session caps, idle timeout and maximum lifetime
+  sessionState?: SessionStateOptions // Store and default TTL behind context.session
+  hooks?: MCPClientHooks // Lifecycle callbacks (sessions, initialize, tool calls, errors)
+  metrics?: boolean | MCPMetricsOptions // Serve Prometheus metrics (default path: '/metrics')
+}
+
+/**
+ * A connected MCP session: its transport plus an isolated SDK Server.
+ * The tool/prompt/resource registries are shared, everything else is per session.
+ */
+interface MCPSession {
+  id: string
+  transport:
+    | SSEServerTransport
+    | ResumableSSEServerTransport
+    | StreamableHTTPServerTransport
+  server: Server
+  connectedAt: Date
+  abortController: AbortController // Aborted when the session closes, cancelling its tool calls
+  principal?: AuthPrincipal // Caller that opened the session, when authentication is enabled
+  resourceSubscriptions: Set<string> // Resource URIs this session has subscribed to
+  roots?: Promise<Root[]> // Cached roots/list result, dropped on notifications/roots/list_changed
+  resumeTimer?: NodeJS.Timeout // Closes a resumable SSE session nobody reconnected to
+  pingInterval?: NodeJS.Timeout // Keep-alive for the current SSE stream
+  lastActivityAt: Date // Last message received from the client
+  errorData: Map<RequestId, unknown> // McpError data to put back on error responses (the SDK drops it)
+  idleTimer?: NodeJS.Timeout // Closes the session after sessionLimits.idleTimeoutMs without messages
+  lifetimeTimer?: NodeJS.Timeout // Closes the session after sessionLimits.maxLifetimeMs
+  toolCalls: number // tools/call requests handled, for the admin routes
+  toolErrors: number
+  activeToolCalls: number
+}
+
+/**
+ * MCPClientOptions.sessionLimits; every limit is off unless set
+ */
+export interface SessionLimitOptions {
+  maxSessions?: number // Concurrent sessions on this instance; new ones get a 503
+  maxSessionsPerPrincipal?: number // Concurrent sessions per authenticated principal; new ones get a 429
+  idleTimeoutMs?: number // Close sessions that sent no message for this long (running tool calls count as activity)
+  maxLifetimeMs?: number // Close sessions this long after they connected, active or not
+}
+
+/**
+ * Options for MCPClient.close()
+ */
+export interface MCPCloseOptions {
+  drainTimeoutMs?: number // How long to wait for in-flight tool calls before aborting them (default: 10000)
+  message?: string // Final notifications/message sent to every session (default: 'Server shutting down')
 }
 
 /**
  * MCPClient class using the MCP SDK Server for handling protocol in Express
  */
-export class MCPClient {
+export class MCPClient<TContext extends object = {}> {
   private router: Router
   private endpoint: string
-  private server: Server // Use the SDK Server
+  private capabilities: ServerCapabilities // Shared by every per-session SDK Server
   private ssePath: string
   private messagePath: string
+  private mcpPath: string
+  private transports: MCPTransportType[]
+  private enableJsonResponse: boolean
+  private authenticate?: AuthenticateFn
+  private authRealm: string
+  private rateLimiter?: RateLimiter
+  private sessionStore?: SessionStore
+  private eventStore?: EventStore
+  private resumeWindowMs: number
+  private pingIntervalMs: number
+  private sessionLimits: SessionLimitOptions
+  private sessionStateStore: SessionStateStore
+  private sessionStateTtlMs?: number
+  private hooks: MCPClientHooks
+  private metrics?: MCPMetrics
+  private metricsPath?: string
+  private healthPath?: string
+  private admin?: MCPAdminOptions
+  private adminPath?: string
+  private jsonParser = expressJson()
   private toolDefinitionsMap: Record<string, Tool> // Map tool name to Tool definition
+  private toolImpls: Record<string, ToolImpl<any, TContext>> = {} // Map tool name to implementation
+  private createContext?: CreateContextFn<TContext>
   private debug: boolean // Flag to control logging
+  private logger: Logger
+  private redactor: Redactor
   private serverName: string // Store server name
   private serverVersion: string // Store server version
+  private promptsMap: Record<string, PromptImpl> = {} // Map prompt name to prompt
+  private staticResources: Record<string, ResourceImpl> = {} // Map URI to resource
+  private resourceTemplates: Array<{
+    impl: ResourceTemplateImpl
+    template: UriTemplate
+  }> = []
 
-  // Store active transports by sessionId
-  private activeTransports: Record<string, SSEServerTransport> = {}
+  // Store active sessions by sessionId
+  private sessions: Record<string, MCPSession> = {}
+  private inFlightCalls = new Set<Promise<unknown>>() // Running tools/call requests
+  private toolMiddleware: ToolMiddleware[] = [] // Registered with use(), wraps every tools/call
+  private closePromise?: Promise<void> // Set once close() starts; no new sessions after that
 
   /**
    * Create a new MCPClient instance
    */
-  constructor(options: MCPClientOptions) {
+  constructor(options: MCPClientOptions<TContext>) {
     this.router = Router()
     this.debug = options.debug ?? false // Default to false if not provided
+    this.logger = options.logger || consoleLogger(this.debug)
+    this.redactor = new Redactor(options.redact)
     this.endpoint = options.endpoint.startsWith('/')
       ? options.endpoint
       : `/${options.endpoint}`
@@ -81,59 +350,113 @@ export class MCPClient {
     // Define paths RELATIVE to the endpoint mount point
     this.ssePath = '/sse'
     this.messagePath = '/message'
+    this.mcpPath = options.mcpPath
+      ? `/${options.mcpPath.replace(/^\/+|\/+$/g, '')}`
+      : '/mcp'
+    this.transports = options.transports?.length ? options.transports : ['sse']
+    this.enableJsonResponse = options.enableJsonResponse ?? false
 
     this.serverName = options.serverName || 'mcp-server'
     this.serverVersion = options.serverVersion || '1.0.0'
+    this.authenticate = options.authenticate
+    this.createContext = options.createContext
+    this.authRealm = options.authRealm || this.serverName
+    if (options.rateLimit) {
+      this.rateLimiter = new RateLimiter(options.rateLimit)
+    }
+    this.sessionStore = options.sessionStore
+    this.eventStore = options.eventStore
+    this.resumeWindowMs = options.resumeWindowMs ?? 60000
+    this.pingIntervalMs = options.pingIntervalMs ?? 30000
+    this.sessionLimits = options.sessionLimits || {}
+    this.sessionStateStore =
+      options.sessionState?.store || new MemorySessionStateStore()
+    this.sessionStateTtlMs = options.sessionState?.defaultTtlMs
+    this.hooks = options.hooks || {}
+    if (options.metrics) {
+      const metricsOptions = options.metrics === true ? {} : options.metrics
+      this.metrics = new MCPMetrics(
+        metricsOptions.registry || new MetricsRegistry(),
+        this.endpoint,
+      )
+      this.metricsPath = `/${(metricsOptions.path || 'metrics').replace(/^\/+|\/+$/g, '')}`
+    }
+    if (options.health) {
+      const healthOptions = options.health === true ? {} : options.health
+      this.healthPath = `/${(healthOptions.path || 'health').replace(/^\/+|\/+$/g, '')}`
+    }
+    if (options.admin) {
+      // The admin routes never fall back to options.authenticate or to no auth
+      if (typeof options.admin.authenticate !== 'function') {
+        throw new Error('admin requires an authenticate function')
+      }
+      this.admin = options.admin
+      this.adminPath = `/${(options.admin.path || 'admin').replace(/^\/+|\/+$/g, '')}`
+    }
 
     // Create and validate tool definitions using the SDK schema
     this.toolDefinitionsMap = {} // This still stores the full Tool objects
-    const capabilitiesToolsMap: Record<string, Omit<Tool, 'name'>> = {} // This map is for capabilities
-
     options.tools.forEach((impl) => {
-      const toolDefinition: Omit<Tool, 'inputSchema'> & { inputSchema: any } = {
-        name: impl.name,
-        description: impl.description,
-        inputSchema: impl.inputSchema || { type: 'object', properties: {} },
-      }
-
       try {
-        const validatedTool = ToolSchema.parse(toolDefinition)
-        this.toolDefinitionsMap[impl.name] = validatedTool
-        // Populate the capabilities map correctly
-        capabilitiesToolsMap[validatedTool.name] = {
-          description: validatedTool.description,
-          inputSchema: validatedTool.inputSchema,
-        }
+        this.registerTool(impl)
       } catch (e) {
-        this.logError(
-          `Invalid tool definition for "${impl.name}":`,
-          (e as Error).message,
-        )
+        this.logError(`Invalid tool definition for "${impl.name}"`, {
+          tool: impl.name,
+          error: (e as Error).message,
+        })
+      }
+    })
+    const resources = options.resources || []
+    resources.forEach((impl) => {
+      if (isResourceTemplate(impl)) {
+        try {
+          this.resourceTemplates.push({
+            impl,
+            template: new UriTemplate(impl.uriTemplate),
+          })
+        } catch (e) {
+          this.logError(`Invalid resource template "${impl.uriTemplate}"`, {
+            error: (e as Error).message,
+          })
+        }
+      } else {
+        this.staticResources[impl.uri] = impl
       }
     })
+    const hasResources = resources.length > 0
 
-    // Create the SDK Server instance with the correctly structured capabilities map
-    this.server = new Server(
-      { name: this.serverName, version: this.serverVersion },
-      {
-        capabilities: {
-          tools: capabilitiesToolsMap, // Use the map with { description, inputSchema }
-          prompts: {},
-        },
-      },
-    )
+    for (const impl of options.prompts || []) {
+      this.promptsMap[impl.name] = impl
+    }
+
+    // Tools can change at runtime, so clients are told to listen for
+    // notifications/tools/list_changed
+    this.capabilities = {
+      tools: { listChanged: true },
+      prompts: {},
+      logging: {},
+      ...(hasResources
+        ? { resources: { subscribe: true, listChanged: false } }
+        : {}),
+    }
 
-    this.setupRequestHandlers(options.tools)
     this.setupRoutes()
 
     // Log the connection information immediately upon instantiation
     const port = process.env.PORT || '3000'
-    this.logInfo(
-      `Connect at: http://localhost:${port}${this.endpoint}${this.ssePath}`,
-    )
-    this.logInfo(
-      `Run with: npx -y mcp-express-adapter --host http://localhost:${port}${this.endpoint}${this.ssePath}`,
-    )
+    if (this.transports.includes('sse')) {
+      this.logInfo(
+        `Connect at: http://localhost:${port}${this.endpoint}${this.ssePath}`,
+      )
+      this.logInfo(
+        `Run with: npx -y mcp-express-adapter --host http://localhost:${port}${this.endpoint}${this.ssePath}`,
+      )
+    }
+    if (this.transports.includes('streamable-http')) {
+      this.logInfo(
+        `Streamable HTTP at: http://localhost:${port}${this.endpoint}${this.mcpPath}`,
+      )
+    }
   }
 
   /**
@@ -156,6 +479,16 @@ export class MCPClient {
     return `${normalizedBaseUrl}${this.endpoint}${this.ssePath}`
   }
 
+  /**
+   * Get the full Streamable HTTP endpoint URL for this MCP client
+   */
+  public getStreamableHTTPEndpoint(baseUrl: string): string {
+    const normalizedBaseUrl = baseUrl.endsWith('/')
+      ? baseUrl.slice(0, -1)
+      : baseUrl
+    return `${normalizedBaseUrl}${this.endpoint}${this.mcpPath}`
+  }
+
   /**
    * Get information about all tools registered with this client
    */
@@ -166,6 +499,257 @@ export class MCPClient {
     }))
   }
 
+  /**
+   * Shut down gracefully: refuse new sessions and tool calls, wait for in-flight
+   * tool calls (aborting them after drainTimeoutMs), send a final notification,
+   * then close every session. Calling it again returns the same promise.
+   */
+  public close(options: MCPCloseOptions = {}): Promise<void> {
+    if (!this.closePromise) {
+      this.closePromise = this.shutdown(options)
+    }
+    return this.closePromise
+  }
+
+  /**
+   * Close one session: its tool calls are aborted and its transport is closed.
+   * Only sessions connected to this instance can be closed.
+   *
+   * @returns false if no such session is connected here
+   */
+  public async closeSession(sessionId: string): Promise<boolean> {
+    const session = this.sessions[sessionId]
+    if (!session) return false
+    this.logInfo(`Closing session ${sessionId}`, { sessionId })
+    await this.terminateSession(session)
+    return true
+  }
+
+  /**
+   * Describe the sessions connected to this instance
+   */
+  public getSessions(): MCPSessionInfo[] {
+    return Object.values(this.sessions).map((session) => ({
+      id: session.id,
+      transport: this.transportType(session.transport),
+      principalId: session.principal?.id,
+      clientInfo: session.server.getClientVersion(),
+      connectedAt: session.connectedAt.toISOString(),
+      lastActivityAt: session.lastActivityAt.toISOString(),
+      toolCalls: session.toolCalls,
+      toolErrors: session.toolErrors,
+      activeToolCalls: session.activeToolCalls,
+    }))
+  }
+
+  /**
+   * Registry behind the metrics route, for registering custom metrics
+   * (undefined unless the `metrics` option is set)
+   */
+  public getMetricsRegistry(): MetricsRegistry | undefined {
+    return this.metrics?.registry
+  }
+
+  /**
+   * Add middleware around every tools/call, in registration order
+   */
+  public use(middleware: ToolMiddleware): this {
+    this.toolMiddleware.push(middleware)
+    return this
+  }
+
+  /**
+   * Register a new tool at runtime and notify every connected session
+   */
+  public async addTool(impl: ToolImpl<any, TContext>): Promise<void> {
+    if (this.toolImpls[impl.name]) {
+      throw new Error(`Tool "${impl.name}" is already registered`)
+    }
+    this.registerTool(impl)
+    this.logDebug(`Tool added: ${impl.name}`)
+    await this.notifyToolListChanged()
+  }
+
+  /**
+   * Remove a tool at runtime and notify every connected session
+   * @returns false if no tool with that name was registered
+   */
+  public async removeTool(name: string): Promise<boolean> {
+    if (!this.toolImpls[name]) {
+      return false
+    }
+    delete this.toolImpls[name]
+    delete this.toolDefinitionsMap[name]
+    this.logDebug(`Tool removed: ${name}`)
+    await this.notifyToolListChanged()
+    return true
+  }
+
+  /**
+   * Replace the definition and handler of an already registered tool
+   */
+  public async replaceTool(impl: ToolImpl<any, TContext>): Promise<void> {
+    if (!this.toolImpls[impl.name]) {
+      throw new Error(`Tool "${impl.name}" is not registered`)
+    }
+    this.registerTool(impl)
+    this.logDebug(`Tool replaced: ${impl.name}`)
+    await this.notifyToolListChanged()
+  }
+
+  /**
+   * Get information about all resources and resource templates registered with this client
+   */
+  public getResources(): Array<{ uri: string; name: string }> {
+    return [
+      ...Object.values(this.staticResources).map((resource) => ({
+        uri: resource.uri,
+        name: resource.name,
+      })),
+      ...this.resourceTemplates.map(({ impl }) => ({
+        uri: impl.uriTemplate,
+        name: impl.name,
+      })),
+    ]
+  }
+
+  /**
+   * Send notifications/resources/updated to every session subscribed to the URI
+   */
+  public async notifyResourceUpdated(uri: string): Promise<void> {
+    const sessionIds = Object.values(this.sessions)
+      .filter((session) => session.resourceSubscriptions.has(uri))
+      .map((session) => session.id)
+    await this.sendNotification(sessionIds, 'notifications/resources/updated', {
+      uri,
+    })
+  }
+
+  /**
+   * Send notifications/tools/list_changed to every active session
+   */
+  private async notifyToolListChanged(): Promise<void> {
+    await this.sendNotification(
+      Object.keys(this.sessions),
+      'notifications/tools/list_changed',
+    )
+  }
+
+  /**
+   * Send a notification through the SDK Server of each given session
+   */
+  private async sendNotification(
+    sessionIds: string[],
+    method: string,
+    params?: Record<string, unknown>,
+  ): Promise<void> {
+    const notifications = sessionIds.map(async (sessionId) => {
+      const session = this.sessions[sessionId]
+      if (!session) return
+      try {
+        await session.server.notification({
+          method,
+          ...(params ? { params } : {}),
+        })
+      } catch (e) {
+        this.reportError(
+          `Error sending ${method} to session ${sessionId}:`,
+          e,
+          sessionId,
+        )
+      }
+    })
+    await Promise.all(notifications)
+  }
+
+  private async shutdown({
+    drainTimeoutMs = 10000,
+    message = 'Server shutting down',
+  }: MCPCloseOptions): Promise<void> {
+    this.logInfo(
+      `Shutting down: ${Object.keys(this.sessions).length} session(s), ${this.inFlightCalls.size} tool call(s) in flight`,
+    )
+
+    if (this.inFlightCalls.size > 0) {
+      let drainTimer: NodeJS.Timeout | undefined
+      const drained = await Promise.race([
+        Promise.allSettled([...this.inFlightCalls]).then(() => true),
+        new Promise<boolean>((resolve) => {
+          drainTimer = setTimeout(() => resolve(false), drainTimeoutMs)
+        }),
+      ])
+      clearTimeout(drainTimer)
+      if (!drained) {
+        this.logInfo(
+          `Drain timeout after ${drainTimeoutMs}ms, aborting ${this.inFlightCalls.size} tool call(s)`,
+        )
+        for (const session of Object.values(this.sessions)) {
+          session.abortController.abort(new Error('Server shutting down'))
+        }
+        // Aborted calls settle right away and answer with an error result
+        await Promise.allSettled([...this.inFlightCalls])
+      }
+    }
+
+    const sessions = Object.values(this.sessions)
+    await Promise.all(
+      sessions.map(async (session) => {
+        try {
+          // Filtered by the level the client set via logging/setLevel
+          await session.server.sendLoggingMessage(
+            { level: 'notice', logger: this.serverName, data: message },
+            session.id,
+          )
+        } catch (e) {
+          this.reportError(
+            `Error sending notifications/message to session ${session.id}:`,
+            e,
+            session.id,
+          )
+        }
+      }),
+    )
+
+    await Promise.all(sessions.map((session) => this.terminateSession(session)))
+    this.logInfo('Shutdown complete')
+  }
+
+  /**
+   * Close a session's SDK Server (and with it the transport), then forget the session
+   */
+  private async terminateSession(session: MCPSession): Promise<void> {
+    try {
+      await session.server.close()
+    } catch (e) {
+      this.reportError(`Error closing session ${session.id}:`, e, session.id)
+    }
+    this.removeSession(session.id)
+  }
+
+  /**
+   * Run a Koa-style middleware chain with `handler` as the innermost step
+   */
+  private runMiddleware(
+    stack: ToolMiddleware[],
+    ctx: ToolCallContext,
+    handler: () => Promise<void>,
+  ): Promise<void> {
+    const dispatch = async (index: number): Promise<void> => {
+      if (index === stack.length) return handler()
+      return stack[index](ctx, () => dispatch(index + 1))
+    }
+    return dispatch(0)
+  }
+
+  /**
+   * Track a tools/call request until its response has been produced
+   */
+  private trackCall<T>(call: Promise<T>): Promise<T> {
+    this.inFlightCalls.add(call)
+    call.finally(() => this.inFlightCalls.delete(call)).catch(() => {}) // Errors are handled by the SDK
+    return call
+  }
+
   /**
    * Get complete metadata about this MCP client
    */
@@ -173,6 +757,8 @@ export class MCPClient {
     endpoint: string
     ssePath: string
     messagePath: string
+    mcpPath: string
+    transports: MCPTransportType[]
     tools: Array<{ name: string; description: string }>
     debug: boolean
     serverName: string
@@ -183,6 +769,8 @@ export class MCPClient {
       endpoint: this.endpoint,
       ssePath: this.ssePath,
       messagePath: this.messagePath,
+      mcpPath: this.mcpPath,
+      transports: [...this.transports],
       tools: this.getTools(),
       debug: this.debug,
       serverName: this.serverName,
@@ -191,151 +779,1208 @@ export class MCPClient {
   }
 
   /**
-   * Log debug messages only when debug is enabled
+   * Write a log line; fields are redacted before they reach the logger
    */
-  private logDebug(...args: any[]): void {
-    if (this.debug) {
-      console.log('[MCPClient]', ...args)
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    let write = this.logger[level]
+    if (!write) {
+      if (level === 'warn') write = this.logger.error
+      else if (this.debug) write = this.logger.info // debug without logger.debug
     }
+    if (!write) return
+    try {
+      if (fields) {
+        write.call(this.logger, message, this.redactor.fields(fields))
+      } else {
+        write.call(this.logger, message)
+      }
+    } catch {
+      // A broken logger must not break request handling
+    }
+  }
+
+  private logDebug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields)
+  }
+
+  private logInfo(message: string, fields?: LogFields): void {
+    this.log('info', message, fields)
+  }
+
+  private logWarn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields)
+  }
+
+  private logError(message: string, fields?: LogFields): void {
+    this.log('error', message, fields)
+  }
+
+  /**
+   * Log an error and pass it to the onError hook
+   */
+  private reportError(message: string, error: unknown, sessionId?: string) {
+    const text = message.replace(/:$/, '')
+    this.logError(text, { sessionId, error })
+    this.runHook('onError', { message: text, error, sessionId })
   }
 
   /**
-   * Log error messages (always shown)
+   * Call a lifecycle hook without waiting for it; failures are only logged
    */
-  private logError(...args: any[]): void {
-    console.error('[MCPClient]', ...args)
+  private runHook<K extends keyof MCPClientHooks>(
+    name: K,
+    event: Parameters<NonNullable<MCPClientHooks[K]>>[0],
+  ): void {
+    const hook = this.hooks[name] as
+      | ((e: typeof event) => void | Promise<void>)
+      | undefined
+    if (!hook) return
+    Promise.resolve()
+      .then(() => hook(event))
+      .catch((e) => this.logError(`Error in ${name} hook`, { error: e }))
   }
 
   /**
-   * Log info messages (always shown)
+   * Validate a tool definition and store it with its handler
+   * Throws if the definition does not match the SDK Tool schema
    */
-  private logInfo(...args: any[]): void {
-    if (this.debug) {
-      console.log('[MCPClient]', ...args)
+  private registerTool(impl: ToolImpl<any, TContext>): void {
+    const toolDefinition: Omit<Tool, 'inputSchema'> & { inputSchema: any } = {
+      name: impl.name,
+      description: impl.description,
+      inputSchema: impl.inputSchema || { type: 'object', properties: {} },
     }
+    const validatedTool = ToolSchema.parse(toolDefinition)
+    this.toolDefinitionsMap[impl.name] = validatedTool
+    this.toolImpls[impl.name] = impl
   }
 
   /**
-   * Setup request handlers using the SDK Server
+   * Create an isolated SDK Server for a new session, wired to the shared registries
    */
-  private setupRequestHandlers(tools: ToolImpl[]): void {
-    // **Explicitly handle tools/list again**
-    const ListToolsRequestSchema = z
-      .object({
-        method: z.literal('tools/list'),
-        // We don't expect params, but passthrough allows flexibility
-        params: z.record(z.any()).optional(),
+  private createServer(): Server {
+    const server = new Server(
+      { name: this.serverName, version: this.serverVersion },
+      { capabilities: this.capabilities },
+    )
+    this.setupRequestHandlers(server)
+    if (this.capabilities.resources) {
+      this.setupResourceHandlers(server)
+    }
+    server.oninitialized = () => {
+      const session = this.findSessionByServer(server)
+      if (!session) return
+      this.runHook('onInitialize', {
+        sessionId: session.id,
+        clientInfo: server.getClientVersion(),
+        capabilities: server.getClientCapabilities(),
       })
-      .passthrough()
+    }
+    server.onerror = (error) => {
+      const session = this.findSessionByServer(server)
+      this.reportError('SDK Server error:', error, session?.id)
+    }
+    // Forget the cached roots; the next listRoots() call fetches them again
+    server.setNotificationHandler(
+      RootsListChangedNotificationSchema,
+      async () => {
+        const session = this.findSessionByServer(server)
+        if (session) {
+          this.logDebug(`Roots changed for session ${session.id}`)
+          session.roots = undefined
+        }
+      },
+    )
+    return server
+  }
 
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      this.logDebug('Handling tools/list request explicitly')
-      // Return the tools as an array, conforming to ListToolsResultSchema
-      const toolList = Object.values(this.toolDefinitionsMap)
-      this.logDebug(`Returning ${toolList.length} tools for tools/list`)
-      return { tools: toolList }
-    })
+  /**
+   * Notification handlers get no `extra`, so map the SDK Server back to its session
+   */
+  private findSessionByServer(server: Server): MCPSession | undefined {
+    return Object.values(this.sessions).find((s) => s.server === server)
+  }
+
+  /**
+   * Combine client cancellation, session disconnect and the tool timeout into one signal
+   */
+  private createCallSignal(
+    toolName: string,
+    requestSignal: AbortSignal,
+    sessionId?: string,
+    timeoutMs?: number,
+  ): { signal: AbortSignal; cleanup: () => void } {
+    const controller = new AbortController()
+    const sources = [requestSignal]
+    const sessionSignal = sessionId
+      ? this.sessions[sessionId]?.abortController.signal
+      : undefined
+    if (sessionSignal) sources.push(sessionSignal)
 
-    // Create a map for quick handler lookup for tools/call
-    const toolHandlerMap = new Map<string, ToolImpl['handler']>()
-    tools.forEach((impl) => {
-      if (this.toolDefinitionsMap[impl.name]) {
-        toolHandlerMap.set(impl.name, impl.handler)
+    const listeners = sources.map((source) => {
+      const onAbort = () => controller.abort(source.reason)
+      if (source.aborted) {
+        onAbort()
+      } else {
+        source.addEventListener('abort', onAbort, { once: true })
       }
+      return () => source.removeEventListener('abort', onAbort)
     })
 
-    // Handler for tools/call
-    if (toolHandlerMap.size > 0) {
-      const CallToolRequestSchema = z
-        .object({
-          method: z.literal('tools/call'),
-          params: z.object({
-            name: z.string(),
-            arguments: z.record(z.any()).optional(),
-          }),
-        })
-        .passthrough()
-
-      this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-        const toolName = request.params.name
-        const toolArgs = request.params.arguments || {}
-        this.logDebug(
-          `Handling tools/call for ${toolName} at endpoint ${this.endpoint}`,
-        )
-
-        const handler = toolHandlerMap.get(toolName)
-        if (!handler) {
-          this.logError(`Unknown tool called: ${toolName}`)
-          return {
-            content: [
-              { type: 'text', text: `Error: Unknown tool '${toolName}'` },
-            ],
-            isError: true,
-          }
-        }
-
-        try {
-          // Retrieve headers from AsyncLocalStorage
-          const headers = requestStorage.getStore() || {}
-          const context = {
-            headers: headers as Record<string, string>,
-          }
-          this.logDebug(`[tools/call] Context from AsyncLocalStorage:`, context)
-
-          // Pass both args and context to the handler
-          const result = await handler(toolArgs, context)
-          this.logDebug(
-            `Tool ${toolName} executed. Result:`,
-            this.debug
-              ? JSON.stringify(result).substring(0, 100) + '...'
-              : '(hidden, enable debug to view)',
+    const timer = timeoutMs
+      ? setTimeout(() => {
+          controller.abort(
+            new Error(`Tool ${toolName} timed out after ${timeoutMs}ms`),
           )
-          return {
-            content: result.content || [],
-            isError: result.isError || false,
-          }
-        } catch (error: any) {
-          this.logError(`Error executing tool ${toolName}:`, error)
-          return {
-            content: [
-              {
-                type: 'text',
-                // Use error.message for a cleaner error response
-                text: `Error executing tool ${toolName}: ${error.message || error}`,
-              },
-            ],
-            isError: true,
-          }
-        }
-      })
-    }
+        }, timeoutMs)
+      : undefined
 
-    // Handler for prompts/list (remains the same)
-    const PromptsListSchema = z
-      .object({
-        method: z.literal('prompts/list'),
-      })
-      .passthrough()
-    this.server.setRequestHandler(PromptsListSchema, async () => {
-      this.logDebug('Handling prompts/list via SDK Server')
-      return { prompts: [] }
-    })
+    return {
+      signal: controller.signal,
+      cleanup: () => {
+        clearTimeout(timer)
+        listeners.forEach((remove) => remove())
+      },
+    }
   }
 
   /**
-   * Set up the Express routes using SDK Transport
+   * Create a reportProgress function bound to the request's progressToken
    */
-  private setupRoutes(): void {
-    // Use the RELATIVE paths defined earlier (/sse, /message)
-    this.router.get(this.ssePath, async (req: Request, res: Response) => {
+  private createProgressReporter(
+    toolName: string,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): NonNullable<ToolContext['reportProgress']> {
+    const progressToken = extra._meta?.progressToken
+    return async (progress, total, message) => {
+      if (progressToken === undefined) return
+      try {
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: {
+            progressToken,
+            progress,
+            ...(total !== undefined ? { total } : {}),
+            ...(message !== undefined ? { message } : {}),
+          },
+        })
+      } catch (e) {
+        this.logDebug(`Failed to report progress for tool ${toolName}`, {
+          sessionId: extra.sessionId,
+          tool: toolName,
+          error: e,
+        })
+      }
+    }
+  }
+
+  /**
+   * Create a log function that sends notifications/message to the calling session
+   */
+  private createSessionLogger(
+    toolName: string,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): NonNullable<ToolContext['log']> {
+    return async (level, data) => {
+      const session = extra.sessionId
+        ? this.sessions[extra.sessionId]
+        : undefined
+      if (!session) return
+      try {
+        // The session's Server drops levels below the one set via logging/setLevel
+        await session.server.sendLoggingMessage(
+          { level, logger: toolName, data },
+          session.id,
+        )
+      } catch (e) {
+        this.logDebug(`Failed to send log message for tool ${toolName}`, {
+          sessionId: extra.sessionId,
+          tool: toolName,
+          error: e,
+        })
+      }
+    }
+  }
+
+  /**
+   * Send elicitation/create to the calling client and validate the reply.
+   * Clients without the elicitation capability get an 'unsupported' outcome instead of an error.
+   */
+  private async elicit<TShape extends ZodRawShape>(
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    message: string,
+    schema: ZodObject<TShape>,
+    signal: AbortSignal,
+    options?: ClientRequestOptions,
+  ): Promise<ElicitOutcome<z.infer<ZodObject<TShape>>>> {
+    // Convert the Zod schema to the flat JSON Schema elicitation expects
+    const requestedSchema = zodToJsonSchema(schema, {
+      target: 'jsonSchema7',
+      $refStrategy: 'none',
+    }) as any
+    delete requestedSchema.$schema
+    delete requestedSchema.additionalProperties
+
+    let result: z.infer<typeof ElicitResultSchema>
+    try {
+      result = await this.sendClientRequest(
+        extra,
+        'elicitation',
+        {
+          method: 'elicitation/create',
+          params: { message, requestedSchema },
+        },
+        ElicitResultSchema,
+        signal,
+        options,
+      )
+    } catch (error) {
+      if (error instanceof ClientCapabilityError) {
+        return { action: 'unsupported' }
+      }
+      throw error
+    }
+
+    if (result.action !== 'accept') {
+      return { action: result.action }
+    }
+
+    const parsed = schema.safeParse(result.content || {})
+    if (!parsed.success) {
+      const errorMessage = parsed.error.errors
+        .map((e) => `${e.path.join('.')}: ${e.message}`)
+        .join(', ')
+      throw new Error(`Elicitation response validation error: ${errorMessage}`)
+    }
+    return { action: 'accept', content: parsed.data }
+  }
+
+  /**
+   * Return the calling client's roots, fetching roots/list once per session.
+   * The shared request is bound to the session rather than the call, so one caller
+   * aborting doesn't fail the others waiting on the same fetch. It gets its own
+   * signal, linked to the session only while pending: the SDK never removes its abort
+   * listener, and a later session close would otherwise cancel an answered request.
+   */
+  private listRoots(
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    signal: AbortSignal,
+    options?: ClientRequestOptions,
+  ): Promise<Root[]> {
+    const session = extra.sessionId ? this.sessions[extra.sessionId] : undefined
+    if (!session) {
+      return Promise.reject(new ClientCapabilityError('roots'))
+    }
+
+    if (!session.roots) {
+      const controller = new AbortController()
+      const sessionSignal = session.abortController.signal
+      const onSessionAbort = () => controller.abort(sessionSignal.reason)
+      sessionSignal.addEventListener('abort', onSessionAbort, { once: true })
+      const pending = this.sendClientRequest(
+        extra,
+        'roots',
+        { method: 'roots/list' },
+        ListRootsResultSchema,
+        controller.signal,
+        options,
+      )
+        .then((result) => result.roots)
+        .finally(() =>
+          sessionSignal.removeEventListener('abort', onSessionAbort),
+        )
+      session.roots = pending
+      // Don't cache failures
+      pending.catch(() => {
+        if (session.roots === pending) {
+          session.roots = undefined
+        }
+      })
+    }
+    return this.raceAbort(session.roots, signal)
+  }
+
+  /**
+   * Send a request back to the calling client over its own session
+   * Fails fast when the client did not declare the required capability.
+   */
+  private async sendClientRequest<T extends z.ZodType<object>>(
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    capability: 'sampling' | 'elicitation' | 'roots',
+    request: ServerRequest,
+    resultSchema: T,
+    signal: AbortSignal,
+    options?: ClientRequestOptions,
+  ): Promise<z.infer<T>> {
+    const session = extra.sessionId ? this.sessions[extra.sessionId] : undefined
+    if (!session?.server.getClientCapabilities()?.[capability]) {
+      throw new ClientCapabilityError(capability)
+    }
+
+    const timeoutMs = options?.timeoutMs ?? DEFAULT_CLIENT_REQUEST_TIMEOUT_MS
+    try {
+      return await extra.sendRequest(request, resultSchema, {
+        timeout: timeoutMs,
+        signal,
+      })
+    } catch (error) {
+      if (
+        error instanceof McpError &&
+        error.code === ErrorCode.RequestTimeout
+      ) {
+        throw new ClientRequestTimeoutError(request.method, timeoutMs)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Resolve with the promise, or reject with the abort reason as soon as the signal fires
+   */
+  private raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    if (signal.aborted) {
+      return Promise.reject(signal.reason)
+    }
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(signal.reason)
+      signal.addEventListener('abort', onAbort, { once: true })
+      promise.then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort)
+      })
+    })
+  }
+
+  /**
+   * Check a tool's requiredScopes and canAccess policy against the caller
+   */
+  private async canAccessTool(
+    impl: ToolImpl<any, TContext>,
+    context: ToolContext<TContext>,
+  ): Promise<boolean> {
+    if (impl.requiredScopes?.length) {
+      const scopes = context.principal?.scopes || []
+      if (!impl.requiredScopes.every((scope) => scopes.includes(scope))) {
+        return false
+      }
+    }
+    if (impl.canAccess) {
+      try {
+        return await impl.canAccess(context)
+      } catch (e) {
+        this.reportError(`canAccess check failed for tool ${impl.name}:`, e)
+        return false
+      }
+    }
+    return true
+  }
+
+  /**
+   * Setup request handlers on a session's SDK Server
+   */
+  private setupRequestHandlers(server: Server): void {
+    // **Explicitly handle tools/list again**
+    const ListToolsRequestSchema = z
+      .object({
+        method: z.literal('tools/list'),
+        // We don't expect params, but passthrough allows flexibility
+        params: z.record(z.any()).optional(),
+      })
+      .passthrough()
+
+    server.setRequestHandler(ListToolsRequestSchema, async (request, extra) => {
+      this.logDebug('Handling tools/list request explicitly')
+      // Return the tools the caller may use, conforming to ListToolsResultSchema
+      const context = await this.buildContext(extra)
+      const toolList: Tool[] = []
+      for (const [name, tool] of Object.entries(this.toolDefinitionsMap)) {
+        if (await this.canAccessTool(this.toolImpls[name], context)) {
+          toolList.push(tool)
+        }
+      }
+      this.logDebug(`Returning ${toolList.length} tools for tools/list`)
+      return { tools: toolList }
+    })
+
+    // Handler for tools/call (looks tools up at call time, so runtime changes apply)
+    const CallToolRequestSchema = z
+      .object({
+        method: z.literal('tools/call'),
+        params: z.object({
+          name: z.string(),
+          arguments: z.record(z.any()).optional(),
+        }),
+      })
+      .passthrough()
+
+    const callTool = async (
+      request: z.infer<typeof CallToolRequestSchema>,
+      extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    ) => {
+      if (this.closePromise) {
+        throw new McpError(ErrorCode.InternalError, 'Server is shutting down')
+      }
+      const toolName = request.params.name
+      const toolArgs = request.params.arguments || {}
+      this.logDebug(`Handling tools/call for ${toolName}`, {
+        sessionId: extra.sessionId,
+        tool: toolName,
+        endpoint: this.endpoint,
+      })
+
+      const impl = this.toolImpls[toolName]
+      if (!impl) {
+        this.logWarn(`Unknown tool called: ${toolName}`, {
+          sessionId: extra.sessionId,
+          tool: toolName,
+        })
+        return {
+          content: [
+            { type: 'text', text: `Error: Unknown tool '${toolName}'` },
+          ],
+          isError: true,
+        }
+      }
+
+      // Retrieve the HTTP request from AsyncLocalStorage
+      const context = await this.buildContext(extra)
+      const callEvent: ToolCallStartEvent = {
+        sessionId: extra.sessionId,
+        toolName,
+        arguments: toolArgs,
+        principal: context.principal,
+      }
+      const startedAt = Date.now()
+      const session = extra.sessionId
+        ? this.sessions[extra.sessionId]
+        : undefined
+      if (session) session.toolCalls++
+      this.runHook('onToolCallStart', callEvent)
+
+      // Record the end of the call in logs, metrics, session stats and hooks
+      const finishCall = (outcome: ToolCallOutcome, error?: unknown) => {
+        const durationMs = Date.now() - startedAt
+        const isError = outcome !== 'success'
+        if (session && isError) session.toolErrors++
+        this.logInfo(`Tool call ${toolName} finished`, {
+          sessionId: extra.sessionId,
+          tool: toolName,
+          durationMs,
+          outcome,
+        })
+        this.metrics?.toolCall(toolName, outcome, durationMs)
+        this.runHook('onToolCallEnd', {
+          ...callEvent,
+          durationMs,
+          isError,
+          outcome,
+          error,
+        })
+      }
+
+      if (!(await this.canAccessTool(impl, context))) {
+        this.logDebug(
+          `Access denied to tool ${toolName} for ${context.principal?.id || 'anonymous'}`,
+        )
+        const error = new ToolAccessError(toolName)
+        finishCall('denied', error)
+        throw error
+      }
+      const handler = impl.handler
+
+      // Throws a RateLimitError (returned as a JSON-RPC error) when over quota
+      let release: (() => Promise<void>) | undefined
+      try {
+        release = await this.rateLimiter?.acquire({
+          sessionId: extra.sessionId,
+          principalId: context.principal?.id,
+          toolName,
+        })
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          session?.errorData.set(extra.requestId, error.data)
+          finishCall('rate_limited', error)
+        } else {
+          finishCall('error', error)
+        }
+        throw error
+      }
+
+      const call = this.createCallSignal(
+        toolName,
+        extra.signal,
+        extra.sessionId,
+        impl.timeoutMs,
+      )
+      context.signal = call.signal
+      context.reportProgress = this.createProgressReporter(toolName, extra)
+      context.log = this.createSessionLogger(toolName, extra)
+      context.sample = (params, options) =>
+        this.sendClientRequest(
+          extra,
+          'sampling',
+          { method: 'sampling/createMessage', params },
+          CreateMessageResultSchema,
+          call.signal,
+          options,
+        )
+      context.elicit = (message, schema, options) =>
+        this.elicit(extra, message, schema, call.signal, options)
+      context.listRoots = (options) =>
+        this.listRoots(extra, call.signal, options)
+
+      let isError = true
+      let callError: unknown
+      if (session) session.activeToolCalls++
+
+      try {
+        this.logDebug(`Calling tool ${toolName}`, {
+          sessionId: extra.sessionId,
+          tool: toolName,
+          principal: context.principal?.id,
+          headers: context.headers,
+          args: toolArgs,
+        })
+
+        const callContext: ToolCallContext = {
+          toolName,
+          args: toolArgs,
+          context,
+        }
+        await this.runMiddleware(
+          [...this.toolMiddleware, ...(impl.middleware || [])],
+          callContext,
+          async () => {
+            // Pass both args and context to the handler; stop waiting once the signal aborts
+            callContext.result = await this.raceAbort(
+              handler(
+                callContext.args,
+                callContext.context as ToolContext<TContext>,
+              ),
+              call.signal,
+            )
+          },
+        )
+        const result = callContext.result
+        if (!result) {
+          throw new Error('Tool middleware finished without a result')
+        }
+        this.logDebug(`Tool ${toolName} executed`, {
+          sessionId: extra.sessionId,
+          tool: toolName,
+          result: this.debug
+            ? JSON.stringify(result).substring(0, 100) + '...'
+            : '(hidden, enable debug to view)',
+        })
+        isError = result.isError || false
+        return {
+          content: result.content || [],
+          isError,
+        }
+      } catch (error: any) {
+        callError = error
+        if (call.signal.aborted) {
+          this.logDebug(`Tool ${toolName} aborted`, {
+            sessionId: extra.sessionId,
+            tool: toolName,
+            reason: call.signal.reason,
+          })
+        } else {
+          this.reportError(
+            `Error executing tool ${toolName}:`,
+            error,
+            extra.sessionId,
+          )
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              // Use error.message for a cleaner error response
+              text: `Error executing tool ${toolName}: ${error.message || error}`,
+            },
+          ],
+          isError: true,
+        }
+      } finally {
+        call.cleanup()
+        await release?.()
+        if (session) session.activeToolCalls--
+        finishCall(isError ? 'error' : 'success', callError)
+      }
+    }
+    server.setRequestHandler(CallToolRequestSchema, (request, extra) =>
+      this.trackCall(callTool(request, extra)),
+    )
+
+    // Handler for prompts/list
+    const PromptsListSchema = z
+      .object({
+        method: z.literal('prompts/list'),
+      })
+      .passthrough()
+    server.setRequestHandler(PromptsListSchema, async () => {
+      this.logDebug('Handling prompts/list via SDK Server')
+      return {
+        prompts: Object.values(this.promptsMap).map((prompt) => ({
+          name: prompt.name,
+          description: prompt.description,
+          arguments: prompt.arguments,
+        })),
+      }
+    })
+
+    // Handler for prompts/get
+    const GetPromptRequestSchema = z
+      .object({
+        method: z.literal('prompts/get'),
+        params: z.object({
+          name: z.string(),
+          arguments: z.record(z.string()).optional(),
+        }),
+      })
+      .passthrough()
+    server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+      const promptName = request.params.name
+      this.logDebug(`Handling prompts/get for ${promptName}`)
+
+      const prompt = this.promptsMap[promptName]
+      if (!prompt) {
+        this.logError(`Unknown prompt requested: ${promptName}`)
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown prompt '${promptName}'`,
+        )
+      }
+
+      return await prompt.handler(
+        request.params.arguments || {},
+        await this.buildContext(extra),
+      )
+    })
+  }
+
+  /**
+   * Setup resources/* request handlers on a session's SDK Server
+   */
+  private setupResourceHandlers(server: Server): void {
+    const ListResourcesRequestSchema = z
+      .object({
+        method: z.literal('resources/list'),
+        params: z.record(z.any()).optional(),
+      })
+      .passthrough()
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      this.logDebug('Handling resources/list request')
+      return {
+        resources: Object.values(this.staticResources).map((resource) => ({
+          uri: resource.uri,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType,
+        })),
+      }
+    })
+
+    const ListResourceTemplatesRequestSchema = z
+      .object({
+        method: z.literal('resources/templates/list'),
+        params: z.record(z.any()).optional(),
+      })
+      .passthrough()
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      this.logDebug('Handling resources/templates/list request')
+      return {
+        resourceTemplates: this.resourceTemplates.map(({ impl }) => ({
+          uriTemplate: impl.uriTemplate,
+          name: impl.name,
+          description: impl.description,
+          mimeType: impl.mimeType,
+        })),
+      }
+    })
+
+    const ReadResourceRequestSchema = z
+      .object({
+        method: z.literal('resources/read'),
+        params: z.object({ uri: z.string() }).passthrough(),
+      })
+      .passthrough()
+
+    server.setRequestHandler(
+      ReadResourceRequestSchema,
+      async (request, extra) => {
+        const uri = request.params.uri
+        this.logDebug(`Handling resources/read for ${uri}`)
+
+        let url: URL
+        try {
+          url = new URL(uri)
+        } catch {
+          throw new McpError(ErrorCode.InvalidParams, `Invalid URI: ${uri}`)
+        }
+
+        const context = await this.buildContext(extra)
+
+        const resource = this.staticResources[uri]
+        if (resource) {
+          return await resource.handler(url, context)
+        }
+
+        for (const { impl, template } of this.resourceTemplates) {
+          const variables = template.match(uri)
+          if (variables) {
+            return await impl.handler(url, variables, context)
+          }
+        }
+
+        this.logError(`Unknown resource requested: ${uri}`)
+        throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`)
+      },
+    )
+
+    const SubscribeRequestSchema = z
+      .object({
+        method: z.literal('resources/subscribe'),
+        params: z.object({ uri: z.string() }).passthrough(),
+      })
+      .passthrough()
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      const sessionId = extra.sessionId
+      if (!sessionId) {
+        throw new McpError(ErrorCode.InvalidRequest, 'No active session')
+      }
+      this.logDebug(`Session ${sessionId} subscribed to ${request.params.uri}`)
+      this.sessions[sessionId]?.resourceSubscriptions.add(request.params.uri)
+      return {}
+    })
+
+    const UnsubscribeRequestSchema = z
+      .object({
+        method: z.literal('resources/unsubscribe'),
+        params: z.object({ uri: z.string() }).passthrough(),
+      })
+      .passthrough()
+
+    server.setRequestHandler(
+      UnsubscribeRequestSchema,
+      async (request, extra) => {
+        if (extra.sessionId) {
+          this.sessions[extra.sessionId]?.resourceSubscriptions.delete(
+            request.params.uri,
+          )
+        }
+        return {}
+      },
+    )
+  }
+
+  /**
+   * Build the context passed to tool, prompt and resource handlers
+   */
+  private async buildContext({
+    sessionId,
+    requestId,
+  }: {
+    sessionId?: string
+    requestId?: RequestId
+  }): Promise<ToolContext<TContext>> {
+    const { headers = {}, req } = requestStorage.getStore() || {}
+    const session = sessionId ? this.sessions[sessionId] : undefined
+    let extra: TContext | undefined
+    if (this.createContext) {
+      try {
+        extra = await this.createContext({
+          headers,
+          principal: session?.principal,
+          sessionId,
+          req,
+        })
+      } catch (e) {
+        this.reportError('Error running createContext:', e, sessionId)
+        throw new McpError(
+          ErrorCode.InternalError,
+          'Failed to create request context',
+        )
+      }
+    }
+    return {
+      ...extra,
+      headers,
+      ...(session?.principal ? { principal: session.principal } : {}),
+      sessionId,
+      requestId,
+      clientInfo: session?.server.getClientVersion(),
+      clientCapabilities: session?.server.getClientCapabilities(),
+      remoteAddress: req?.ip,
+      req,
+      locals: req?.res?.locals,
+      session: sessionId
+        ? bindSessionState(
+            this.sessionStateStore,
+            sessionId,
+            this.sessionStateTtlMs,
+          )
+        : undefined,
+    } as ToolContext<TContext>
+  }
+
+  /**
+   * Run an authenticate hook (options.authenticate or admin.authenticate) for a request.
+   * On rejection the 401/403 response (with WWW-Authenticate) has already been sent.
+   *
+   * @returns The principal (undefined when auth is disabled), or false if rejected
+   */
+  private async authenticateRequest(
+    req: Request,
+    res: Response,
+    authenticate: AuthenticateFn | undefined,
+  ): Promise<AuthPrincipal | undefined | false> {
+    if (!authenticate) return undefined
+
+    try {
+      const principal = await authenticate(req)
+      if (principal) return principal
+      res.setHeader('WWW-Authenticate', buildWwwAuthenticate(this.authRealm))
+      res.status(401).send('Unauthorized')
+    } catch (error) {
+      if (!(error instanceof AuthError)) {
+        this.reportError('Error running authenticate hook:', error)
+        res.status(500).send('Internal Server Error')
+        return false
+      }
+      this.logDebug(`Authentication rejected: ${error.message}`)
+      res.setHeader(
+        'WWW-Authenticate',
+        buildWwwAuthenticate(this.authRealm, error),
+      )
+      res.status(error.status).send(error.message)
+    }
+    return false
+  }
+
+  /**
+   * Check that a request on an existing session comes from the principal that opened it
+   * Sends a 403 and returns false otherwise
+   */
+  private checkSessionPrincipal(
+    session: MCPSession,
+    principal: AuthPrincipal | undefined,
+    res: Response,
+  ): boolean {
+    if (!session.principal || session.principal.id === principal?.id) {
+      // Keep the freshest principal (e.g. refreshed token scopes)
+      if (principal) session.principal = principal
+      return true
+    }
+    this.rejectForeignSession(res)
+    return false
+  }
+
+  /**
+   * Answer 403 to a request for a session opened by another principal
+   */
+  private rejectForeignSession(res: Response): void {
+    const error = new AuthError('Session belongs to another principal', 403)
+    res.setHeader(
+      'WWW-Authenticate',
+      buildWwwAuthenticate(this.authRealm, error),
+    )
+    res.status(403).send(error.message)
+  }
+
+  /**
+   * Track a newly connected session
+   */
+  private addSession(
+    sessionId: string,
+    transport: MCPSession['transport'],
+    server: Server,
+    principal?: AuthPrincipal,
+  ): MCPSession {
+    const session: MCPSession = {
+      id: sessionId,
+      transport,
+      server,
+      connectedAt: new Date(),
+      abortController: new AbortController(),
+      principal,
+      resourceSubscriptions: new Set(),
+      toolCalls: 0,
+      toolErrors: 0,
+      activeToolCalls: 0,
+      lastActivityAt: new Date(),
+      errorData: new Map(),
+    }
+    this.sessions[sessionId] = session
+    this.keepErrorData(session)
+    this.touchSession(session)
+    const { maxLifetimeMs } = this.sessionLimits
+    if (maxLifetimeMs) {
+      session.lifetimeTimer = setTimeout(() => {
+        this.logInfo(`Session ${sessionId} reached its maximum lifetime`, {
+          sessionId,
+        })
+        this.terminateSession(session)
+      }, maxLifetimeMs)
+    }
+    this.metrics?.sessionOpened(this.transportType(transport))
+    this.runHook('onSessionStart', {
+      sessionId,
+      transport: this.transportType(transport),
+      principal,
+    })
+    return session
+  }
+
+  /**
+   * SDK 1.17 only sends `code` and `message` for errors thrown by request handlers.
+   * Wrap the transport's send to add the `data` recorded in session.errorData,
+   * unless the error already carries data (SDK versions that forward it).
+   */
+  private keepErrorData(session: MCPSession): void {
+    const transport = session.transport as {
+      send: (message: JSONRPCMessage, options?: unknown) => Promise<void>
+    }
+    const send = transport.send.bind(transport)
+    transport.send = (message, options) => {
+      if ('error' in message && session.errorData.has(message.id)) {
+        const data = session.errorData.get(message.id)
+        session.errorData.delete(message.id)
+        if (message.error.data === undefined) {
+          message = { ...message, error: { ...message.error, data } }
+        }
+      }
+      return send(message, options)
+    }
+  }
+
+  /**
+   * Record a message from the client and restart the idle timer
+   */
+  private touchSession(session: MCPSession): void {
+    session.lastActivityAt = new Date()
+    const { idleTimeoutMs } = this.sessionLimits
+    if (!idleTimeoutMs) return
+    clearTimeout(session.idleTimer)
+    session.idleTimer = setTimeout(() => {
+      if (this.sessions[session.id] !== session) return
+      // A session waiting on a slow tool isn't idle
+      if (session.activeToolCalls > 0) {
+        this.touchSession(session)
+        return
+      }
+      this.logInfo(`Session ${session.id} idle for ${idleTimeoutMs}ms`, {
+        sessionId: session.id,
+      })
+      this.terminateSession(session)
+    }, idleTimeoutMs)
+  }
+
+  /**
+   * Check sessionLimits before opening a new session for `principal`
+   *
+   * @returns The status and message to reject with, or undefined if under the limits
+   */
+  private checkSessionLimits(
+    principal?: AuthPrincipal,
+  ): { status: number; message: string } | undefined {
+    const { maxSessions, maxSessionsPerPrincipal } = this.sessionLimits
+    const sessions = Object.values(this.sessions)
+    if (maxSessions !== undefined && sessions.length >= maxSessions) {
+      return { status: 503, message: 'Too many sessions' }
+    }
+    if (maxSessionsPerPrincipal !== undefined && principal) {
+      const owned = sessions.filter((s) => s.principal?.id === principal.id)
+      if (owned.length >= maxSessionsPerPrincipal) {
+        return { status: 429, message: 'Too many sessions for this principal' }
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Forget a session once its transport is gone
+   */
+  private removeSession(sessionId: string): void {
+    const session = this.sessions[sessionId]
+    session?.abortController.abort(new Error('Session closed'))
+    clearTimeout(session?.resumeTimer)
+    clearInterval(session?.pingInterval)
+    clearTimeout(session?.idleTimer)
+    clearTimeout(session?.lifetimeTimer)
+    delete this.sessions[sessionId]
+    if (session) {
+      this.metrics?.sessionClosed(this.transportType(session.transport))
+      this.runHook('onSessionEnd', {
+        sessionId,
+        transport: this.transportType(session.transport),
+        principal: session.principal,
+        durationMs: Date.now() - session.connectedAt.getTime(),
+      })
+    }
+    if (
+      this.sessionStore &&
+      session &&
+      this.isSSETransport(session.transport)
+    ) {
+      this.sessionStore.unregister(sessionId).catch((e) => {
+        this.logError(`Error unregistering session ${sessionId}`, {
+          sessionId,
+          error: e,
+        })
+      })
+    }
+    if (session) {
+      this.sessionStateStore.clear(sessionId).catch((e) => {
+        this.logError(`Error clearing state for session ${sessionId}`, {
+          sessionId,
+          error: e,
+        })
+      })
+    }
+    this.rateLimiter?.forgetSession(sessionId).catch((e) => {
+      this.logError(`Error clearing rate limits for session ${sessionId}`, {
+        sessionId,
+        error: e,
+      })
+    })
+  }
+
+  /**
+   * Set up the Express routes for every enabled transport
+   */
+  private setupRoutes(): void {
+    if (this.metrics) {
+      this.setupMetricsRoutes(this.metrics)
+    }
+    if (this.healthPath) {
+      this.setupHealthRoute(this.healthPath)
+    }
+    if (this.admin) {
+      this.setupAdminRoutes(this.admin, this.adminPath!)
+    }
+    if (this.transports.includes('sse')) {
+      this.setupSSERoutes()
+    }
+    if (this.transports.includes('streamable-http')) {
+      this.setupStreamableHTTPRoutes()
+    }
+  }
+
+  /**
+   * Count 4xx/5xx answers on the MCP routes and serve the Prometheus text format
+   */
+  private setupMetricsRoutes(metrics: MCPMetrics): void {
+    // Only known routes are labelled, to keep the series count bounded
+    const mcpRoutes = [this.ssePath, this.messagePath, this.mcpPath]
+    this.router.use((req: Request, res: Response, next) => {
+      if (mcpRoutes.includes(req.path)) {
+        res.on('finish', () => {
+          if (res.statusCode >= 400) {
+            metrics.httpError(req.path, res.statusCode)
+          }
+        })
+      }
+      next()
+    })
+
+    this.router.get(this.metricsPath!, (req: Request, res: Response) => {
+      res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+      res.send(metrics.registry.render())
+    })
+  }
+
+  /**
+   * Liveness/readiness check: 200 while serving, 503 once close() has started
+   */
+  private setupHealthRoute(path: string): void {
+    this.router.get(path, (req: Request, res: Response) => {
+      const closing = !!this.closePromise
+      res.status(closing ? 503 : 200).json({
+        status: closing ? 'shutting_down' : 'ok',
+        sessions: Object.keys(this.sessions).length,
+        activeToolCalls: this.inFlightCalls.size,
+      })
+    })
+  }
+
+  /**
+   * Metadata, session listing and session termination, guarded by admin.authenticate
+   */
+  private setupAdminRoutes(admin: MCPAdminOptions, path: string): void {
+    this.router.use(path, async (req: Request, res: Response, next) => {
+      const principal = await this.authenticateRequest(
+        req,
+        res,
+        admin.authenticate,
+      )
+      if (principal === false) return
+      next()
+    })
+
+    this.router.get(path, (req: Request, res: Response) => {
+      res.json(this.getMetadata())
+    })
+
+    this.router.get(`${path}/sessions`, (req: Request, res: Response) => {
+      res.json({ sessions: this.getSessions() })
+    })
+
+    this.router.delete(
+      `${path}/sessions/:sessionId`,
+      async (req: Request, res: Response) => {
+        const { sessionId } = req.params
+        if (!(await this.closeSession(sessionId))) {
+          res.status(404).json({ error: `Session not found: ${sessionId}` })
+          return
+        }
+        res.status(204).end()
+      },
+    )
+  }
+
+  /**
+   * Set up the legacy SSE routes using SDK Transport
+   */
+  private setupSSERoutes(): void {
+    // Use the RELATIVE paths defined earlier (/sse, /message)
+    this.router.get(this.ssePath, async (req: Request, res: Response) => {
       this.logDebug(
         `SSE connection request to ${req.originalUrl} from ${req.ip}`,
       )
+      const principal = await this.authenticateRequest(
+        req,
+        res,
+        this.authenticate,
+      )
+      if (principal === false) return
+
+      // Checked after authentication, which may await while close() runs
+      if (this.closePromise) {
+        res.status(503).send('Server is shutting down')
+        return
+      }
 
-      res.setHeader('Content-Type', 'text/event-stream')
-      res.setHeader('Cache-Control', 'no-cache')
-      res.setHeader('Connection', 'keep-alive')
-      res.setHeader('Access-Control-Allow-Origin', '*')
+      // A reconnecting EventSource resumes its session instead of opening a new one
+      const lastEventId = req.headers['last-event-id']
+      if (this.eventStore && typeof lastEventId === 'string') {
+        await this.resumeSSESession(req, res, principal, lastEventId)
+        return
+      }
+
+      const overLimit = this.checkSessionLimits(principal)
+      if (overLimit) {
+        this.logInfo(`SSE connection rejected: ${overLimit.message}`, {
+          principal: principal?.id,
+        })
+        res.status(overLimit.status).send(overLimit.message)
+        return
+      }
+
+      this.setSSEHeaders(res)
 
       // Construct the message URL using the *mounted* endpoint path
       const host = req.get('host') || 'localhost:8000'
@@ -355,11 +2000,16 @@ export class MCPClient {
 
       this.logDebug(`Calculated message URL for SSE transport: ${msgUrl}`)
 
-      const transport = new SSEServerTransport(msgUrl, res)
+      const transport = this.eventStore
+        ? new ResumableSSEServerTransport(msgUrl, this.eventStore)
+        : new SSEServerTransport(msgUrl, res)
       const sessionId = transport.sessionId
 
+      // Every session gets its own SDK Server so responses never cross sessions
+      const server = this.createServer()
+
       if (sessionId) {
-        this.activeTransports[sessionId] = transport
+        this.addSession(sessionId, transport, server, principal)
         this.logDebug(`SSE Transport created for session: ${sessionId}`)
       } else {
         this.logError('Failed to get session ID')
@@ -367,36 +2017,39 @@ export class MCPClient {
         return
       }
 
-      const pingInterval = setInterval(() => {
-        try {
-          if (!res.writableEnded) {
-            res.write(': ping\n\n')
-          } else {
-            clearInterval(pingInterval)
-          }
-        } catch (e) {
-          this.logError(`Error sending ping for session ${sessionId}:`, e)
-          clearInterval(pingInterval)
-        }
-      }, 30000)
+      const pingInterval = this.startPing(res, this.sessions[sessionId])
 
       req.on('close', () => {
         this.logDebug(`SSE connection closed for session ${sessionId}`)
         clearInterval(pingInterval)
-        transport.close()
-        delete this.activeTransports[sessionId]
+        // Resumable sessions stay open until their resume window expires
+        if (transport instanceof SSEServerTransport) {
+          transport.close()
+          this.removeSession(sessionId)
+        }
       })
 
       try {
-        await this.server.connect(transport)
+        // Let other replicas route this session's POSTs here
+        await this.sessionStore?.register(
+          sessionId,
+          { principalId: principal?.id },
+          (message) => this.deliverRoutedMessage(sessionId, message),
+        )
+        await server.connect(transport)
+        if (transport instanceof ResumableSSEServerTransport) {
+          transport.ondetach = () => this.suspendSession(sessionId)
+          await transport.attach(res)
+        }
         this.logDebug(`SDK Server connected for session ${sessionId}`)
       } catch (err) {
-        this.logError(
+        this.reportError(
           `Error connecting SDK Server for session ${sessionId}:`,
           err,
+          sessionId,
         )
         clearInterval(pingInterval)
-        delete this.activeTransports[sessionId]
+        this.removeSession(sessionId)
         if (!res.headersSent) {
           res.status(500).send('Internal Server Error')
         }
@@ -411,33 +2064,53 @@ export class MCPClient {
         return
       }
 
-      const transport = this.activeTransports[sessionId]
-      if (!transport) {
+      const principal = await this.authenticateRequest(
+        req,
+        res,
+        this.authenticate,
+      )
+      if (principal === false) return
+
+      const session = this.sessions[sessionId]
+      const transport = session?.transport
+      if (!session && this.sessionStore) {
+        await this.routeMessage(sessionId, principal, req, res)
+        return
+      }
+      if (!transport || !this.isSSETransport(transport)) {
         this.logError(`Session not found: ${sessionId}`)
         res.status(404).send('Session not found')
         return
       }
+      if (!this.checkSessionPrincipal(session, principal, res)) return
+      this.touchSession(session)
 
       this.logDebug(`POST message for session: ${sessionId}`)
       // Node.js automatically lowercases header names.
       const headers = req.headers as Record<string, string> // Cast headers
-      this.logDebug(`Headers received for session ${sessionId}:`, headers)
+      this.logDebug(`Headers received for session ${sessionId}`, {
+        sessionId,
+        headers,
+      })
 
       try {
         // Run the message handling within the AsyncLocalStorage context
-        await requestStorage.run(headers, () => {
+        await requestStorage.run({ headers, req }, () => {
           this.logDebug(
             `Running handlePostMessage in AsyncLocalStorage context for session ${sessionId}`,
           )
-          return transport.handlePostMessage(req, res)
+          return transport instanceof ResumableSSEServerTransport
+            ? this.handleResumablePost(transport, req, res)
+            : transport.handlePostMessage(req, res)
         })
         this.logDebug(
           `SDK Transport handled POST for session ${sessionId} (after AsyncLocalStorage)`,
         )
       } catch (error) {
-        this.logError(
+        this.reportError(
           `Error handlePostMessage for session ${sessionId}:`,
           error,
+          sessionId,
         )
         if (!res.headersSent) {
           res.status(500).send('Internal Server Error')
@@ -446,6 +2119,440 @@ export class MCPClient {
     })
   }
 
+  /**
+   * Whether a transport belongs to the legacy SSE + POST /message pair
+   */
+  private isSSETransport(
+    transport: MCPSession['transport'],
+  ): transport is SSEServerTransport | ResumableSSEServerTransport {
+    return (
+      transport instanceof SSEServerTransport ||
+      transport instanceof ResumableSSEServerTransport
+    )
+  }
+
+  private transportType(transport: MCPSession['transport']): MCPTransportType {
+    return this.isSSETransport(transport) ? 'sse' : 'streamable-http'
+  }
+
+  private setSSEHeaders(res: Response): void {
+    res.setHeader('Content-Type', 'text/event-stream')
+    res.setHeader('Cache-Control', 'no-cache')
+    res.setHeader('Connection', 'keep-alive')
+    res.setHeader('Access-Control-Allow-Origin', '*')
+  }
+
+  /**
+   * Keep an SSE stream alive through proxies with a comment line every pingIntervalMs
+   */
+  private startPing(
+    res: Response,
+    session: MCPSession,
+  ): NodeJS.Timeout | undefined {
+    const sessionId = session.id
+    clearInterval(session.pingInterval)
+    session.pingInterval = undefined
+    if (!this.pingIntervalMs) return undefined
+    const pingInterval = setInterval(() => {
+      try {
+        if (!res.writableEnded) {
+          res.write(': ping\n\n')
+        } else {
+          clearInterval(pingInterval)
+        }
+      } catch (e) {
+        this.reportError(
+          `Error sending ping for session ${sessionId}:`,
+          e,
+          sessionId,
+        )
+        clearInterval(pingInterval)
+      }
+    }, this.pingIntervalMs)
+    session.pingInterval = pingInterval
+    return pingInterval
+  }
+
+  /**
+   * Attach a reconnecting SSE stream to its session and replay what it missed
+   */
+  private async resumeSSESession(
+    req: Request,
+    res: Response,
+    principal: AuthPrincipal | undefined,
+    lastEventId: string,
+  ): Promise<void> {
+    const parsed = ResumableSSEServerTransport.parseEventId(lastEventId)
+    const session = parsed ? this.sessions[parsed.sessionId] : undefined
+    const transport = session?.transport
+    if (
+      !parsed ||
+      !session ||
+      !(transport instanceof ResumableSSEServerTransport)
+    ) {
+      this.logError(`Cannot resume session for Last-Event-ID: ${lastEventId}`)
+      res.status(404).send('Session not found')
+      return
+    }
+    if (!this.checkSessionPrincipal(session, principal, res)) return
+
+    clearTimeout(session.resumeTimer)
+    session.resumeTimer = undefined
+    this.touchSession(session)
+    this.setSSEHeaders(res)
+    const pingInterval = this.startPing(res, session)
+    req.on('close', () => clearInterval(pingInterval))
+
+    try {
+      await transport.attach(res, parsed.eventId)
+      this.logDebug(`SSE session ${session.id} resumed after ${lastEventId}`)
+    } catch (error) {
+      // The missed events are gone, so the client has to start a new session
+      this.reportError(
+        `Error resuming session ${session.id}:`,
+        error,
+        session.id,
+      )
+      res.end()
+      transport.close()
+      this.removeSession(session.id)
+    }
+  }
+
+  /**
+   * Keep a resumable SSE session whose stream dropped until the resume window expires
+   */
+  private suspendSession(sessionId: string): void {
+    const session = this.sessions[sessionId]
+    if (!session) return
+    this.logDebug(
+      `SSE stream for session ${sessionId} dropped, waiting ${this.resumeWindowMs}ms for a reconnect`,
+    )
+    clearTimeout(session.resumeTimer)
+    session.resumeTimer = setTimeout(() => {
+      this.logDebug(`Resume window expired for session ${sessionId}`)
+      session.transport.close()
+      this.removeSession(sessionId)
+    }, this.resumeWindowMs)
+  }
+
+  /**
+   * Handle a POST /message for a resumable SSE session
+   */
+  private async handleResumablePost(
+    transport: ResumableSSEServerTransport,
+    req: Request,
+    res: Response,
+  ): Promise<void> {
+    if (!(await this.parseJsonBody(req, res))) return
+    try {
+      await transport.handleMessage(req.body, {
+        requestInfo: { headers: req.headers },
+      })
+    } catch (error) {
+      res.status(400).send(`Invalid message: ${(error as Error).message}`)
+      return
+    }
+    res.status(202).send('Accepted')
+  }
+
+  /**
+   * Parse a JSON request body on routes where the SDK transport doesn't do it.
+   * Answers 400 and returns false for other content types.
+   */
+  private async parseJsonBody(req: Request, res: Response): Promise<boolean> {
+    await new Promise<void>((resolve, reject) => {
+      this.jsonParser(req, res, (err?: unknown) =>
+        err ? reject(err) : resolve(),
+      )
+    })
+    if (!req.is('application/json')) {
+      res.status(400).send('Unsupported content-type')
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Forward a POST /message for a session held by another replica through the SessionStore
+   */
+  private async routeMessage(
+    sessionId: string,
+    principal: AuthPrincipal | undefined,
+    req: Request,
+    res: Response,
+  ): Promise<void> {
+    try {
+      const owner = await this.sessionStore!.get(sessionId)
+      if (!owner) {
+        this.logError(`Session not found: ${sessionId}`)
+        res.status(404).send('Session not found')
+        return
+      }
+      if (owner.principalId && owner.principalId !== principal?.id) {
+        this.rejectForeignSession(res)
+        return
+      }
+
+      // The local transport would parse the body itself; here it has to travel as JSON
+      if (!(await this.parseJsonBody(req, res))) return
+
+      const routed = await this.sessionStore!.route(sessionId, {
+        body: req.body,
+        // The store may persist messages, so secrets (redact.headers) stay on this instance
+        headers: this.redactor.omitHeaders(
+          req.headers as Record<string, string>,
+        ),
+        principalId: principal?.id,
+      })
+      if (!routed) {
+        this.logError(`Session not found: ${sessionId}`)
+        res.status(404).send('Session not found')
+        return
+      }
+      this.logDebug(`Routed POST message for session ${sessionId}`)
+      res.status(202).send('Accepted')
+    } catch (error) {
+      this.reportError(
+        `Error routing message for session ${sessionId}:`,
+        error,
+        sessionId,
+      )
+      if (!res.headersSent) {
+        res.status(500).send('Internal Server Error')
+      }
+    }
+  }
+
+  /**
+   * Handle a message another replica routed to a session owned by this instance
+   */
+  private async deliverRoutedMessage(
+    sessionId: string,
+    message: RoutedMessage,
+  ): Promise<void> {
+    const session = this.sessions[sessionId]
+    const transport = session?.transport
+    if (!transport || !this.isSSETransport(transport)) {
+      this.logError(`Routed message for unknown session: ${sessionId}`)
+      return
+    }
+    // The routing instance already checked this; don't trust the bus blindly
+    if (session.principal && session.principal.id !== message.principalId) {
+      this.logError(`Dropped routed message from another principal`)
+      return
+    }
+    this.touchSession(session)
+    this.logDebug(`Delivering routed message for session ${sessionId}`)
+    await requestStorage.run({ headers: message.headers }, () =>
+      transport.handleMessage(message.body, {
+        requestInfo: { headers: message.headers },
+      }),
+    )
+  }
+
+  /**
+   * Set up the single Streamable HTTP endpoint (POST, GET and DELETE)
+   */
+  private setupStreamableHTTPRoutes(): void {
+    // POST carries JSON-RPC messages; an initialize request opens a new session
+    this.router.post(
+      this.mcpPath,
+      expressJson(),
+      async (req: Request, res: Response) => {
+        const principal = await this.authenticateRequest(
+          req,
+          res,
+          this.authenticate,
+        )
+        if (principal === false) return
+
+        const sessionId = req.headers['mcp-session-id'] as string | undefined
+        let transport: StreamableHTTPServerTransport | undefined
+
+        if (sessionId) {
+          transport = this.getStreamableTransport(sessionId)
+          if (!transport) {
+            this.logError(`Session not found: ${sessionId}`)
+            this.sendJsonRpcError(res, 404, -32001, 'Session not found')
+            return
+          }
+          const session = this.sessions[sessionId]
+          if (!this.checkSessionPrincipal(session, principal, res)) return
+          this.touchSession(session)
+        } else if (isInitializeRequest(req.body)) {
+          if (this.closePromise) {
+            this.sendJsonRpcError(
+              res,
+              503,
+              ErrorCode.InternalError,
+              'Server is shutting down',
+            )
+            return
+          }
+          const overLimit = this.checkSessionLimits(principal)
+          if (overLimit) {
+            this.logInfo(
+              `Streamable HTTP session rejected: ${overLimit.message}`,
+              { principal: principal?.id },
+            )
+            this.sendJsonRpcError(
+              res,
+              overLimit.status,
+              -32000,
+              overLimit.message,
+            )
+            return
+          }
+          transport = await this.createStreamableTransport(res, principal)
+          if (!transport) return
+        } else {
+          this.logError('Streamable HTTP request missing Mcp-Session-Id')
+          this.sendJsonRpcError(
+            res,
+            400,
+            -32000,
+            'Bad Request: No valid session ID provided',
+          )
+          return
+        }
+
+        await this.handleStreamableRequest(transport, req, res)
+      },
+    )
+
+    // GET opens the server-to-client stream, DELETE terminates the session
+    const handleSessionRequest = async (req: Request, res: Response) => {
+      const principal = await this.authenticateRequest(
+        req,
+        res,
+        this.authenticate,
+      )
+      if (principal === false) return
+
+      const sessionId = req.headers['mcp-session-id'] as string | undefined
+      if (!sessionId) {
+        this.sendJsonRpcError(
+          res,
+          400,
+          -32000,
+          'Bad Request: Missing Mcp-Session-Id header',
+        )
+        return
+      }
+
+      const transport = this.getStreamableTransport(sessionId)
+      if (!transport) {
+        this.logError(`Session not found: ${sessionId}`)
+        this.sendJsonRpcError(res, 404, -32001, 'Session not found')
+        return
+      }
+      const session = this.sessions[sessionId]
+      if (!this.checkSessionPrincipal(session, principal, res)) return
+      this.touchSession(session)
+
+      this.logDebug(`${req.method} ${this.mcpPath} for session: ${sessionId}`)
+      await this.handleStreamableRequest(transport, req, res)
+    }
+
+    this.router.get(this.mcpPath, handleSessionRequest)
+    this.router.delete(this.mcpPath, handleSessionRequest)
+  }
+
+  /**
+   * Create a Streamable HTTP transport and connect it to a new session's SDK Server.
+   * The session is registered once the transport has assigned its ID.
+   */
+  private async createStreamableTransport(
+    res: Response,
+    principal?: AuthPrincipal,
+  ): Promise<StreamableHTTPServerTransport | undefined> {
+    const server = this.createServer()
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableJsonResponse: this.enableJsonResponse,
+      eventStore: this.eventStore,
+      onsessioninitialized: (sessionId) => {
+        this.addSession(sessionId, transport, server, principal)
+        this.logDebug(
+          `Streamable HTTP Transport created for session: ${sessionId}`,
+        )
+      },
+    })
+
+    transport.onclose = () => {
+      const sessionId = transport.sessionId
+      if (sessionId && this.sessions[sessionId]?.transport === transport) {
+        this.logDebug(`Streamable HTTP session closed: ${sessionId}`)
+        this.removeSession(sessionId)
+      }
+    }
+
+    try {
+      await server.connect(transport)
+      return transport
+    } catch (err) {
+      this.reportError('Error connecting SDK Server to Streamable HTTP:', err)
+      if (!res.headersSent) {
+        res.status(500).send('Internal Server Error')
+      }
+      return undefined
+    }
+  }
+
+  /**
+   * Run a Streamable HTTP request within the AsyncLocalStorage context
+   */
+  private async handleStreamableRequest(
+    transport: StreamableHTTPServerTransport,
+    req: Request,
+    res: Response,
+  ): Promise<void> {
+    const headers = req.headers as Record<string, string>
+    try {
+      await requestStorage.run({ headers, req }, () =>
+        transport.handleRequest(req, res, req.body),
+      )
+    } catch (error) {
+      this.reportError(
+        `Error handling Streamable HTTP ${req.method} for session ${transport.sessionId}:`,
+        error,
+        transport.sessionId,
+      )
+      if (!res.headersSent) {
+        res.status(500).send('Internal Server Error')
+      }
+    }
+  }
+
+  /**
+   * Look up an active Streamable HTTP transport by session ID
+   */
+  private getStreamableTransport(
+    sessionId: string,
+  ): StreamableHTTPServerTransport | undefined {
+    const transport = this.sessions[sessionId]?.transport
+    return transport instanceof StreamableHTTPServerTransport
+      ? transport
+      : undefined
+  }
+
+  /**
+   * Send a JSON-RPC error body, as expected by Streamable HTTP clients
+   */
+  private sendJsonRpcError(
+    res: Response,
+    status: number,
+    code: number,
+    message: string,
+  ): void {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null,
+    })
+  }
+
   /**
    * Return middleware that can be used with Express
    */
@@ -0,0 +1,338 @@
+import type { ToolCallOutcome } from './hooks.js'
+
+export type MetricLabels = Record<string, string | number>
+
+// Prometheus' default buckets plus a few for slow tools (seconds)
+export const DEFAULT_DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+]
+
+export interface MetricOptions {
+  name: string
+  help: string
+  labelNames?: string[]
+}
+
+export interface HistogramOptions extends MetricOptions {
+  buckets?: number[] // Upper bounds in ascending order (default: DEFAULT_DURATION_BUCKETS)
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: Array<[string, string]>): string {
+  if (labels.length === 0) return ''
+  const pairs = labels.map(([k, v]) => `${k}="${escapeLabelValue(v)}"`)
+  return `{${pairs.join(',')}}`
+}
+
+/**
+ * Shared behaviour of counters, gauges and histograms: one series per label combination
+ */
+abstract class Metric<TValue> {
+  readonly name: string
+  readonly help: string
+  readonly labelNames: string[]
+  protected series = new Map<
+    string,
+    { labels: Array<[string, string]>; value: TValue }
+  >()
+
+  constructor(options: MetricOptions) {
+    this.name = options.name
+    this.help = options.help
+    this.labelNames = options.labelNames || []
+  }
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram'
+
+  protected abstract initialValue(): TValue
+
+  protected getSeries(labels: MetricLabels): TValue {
+    const pairs = this.labelNames.map(
+      (name) => [name, String(labels[name] ?? '')] as [string, string],
+    )
+    const key = pairs.map(([, v]) => v).join('\u0000')
+    let entry = this.series.get(key)
+    if (!entry) {
+      entry = { labels: pairs, value: this.initialValue() }
+      this.series.set(key, entry)
+    }
+    return entry.value
+  }
+
+  protected abstract formatSeries(
+    labels: Array<[string, string]>,
+    value: TValue,
+  ): string[]
+
+  /**
+   * Render this metric in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`]
+    lines.push(`# TYPE ${this.name} ${this.type}`)
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.formatSeries(labels, value))
+    }
+    return lines.join('\n')
+  }
+
+  reset(): void {
+    this.series.clear()
+  }
+}
+
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter'
+
+  protected initialValue() {
+    return { value: 0 }
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    if (value < 0) throw new Error(`Counter ${this.name} cannot decrease`)
+    this.getSeries(labels).value += value
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.getSeries(labels).value
+  }
+
+  protected formatSeries(
+    labels: Array<[string, string]>,
+    series: { value: number },
+  ) {
+    return [`${this.name}${formatLabels(labels)} ${series.value}`]
+  }
+}
+
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge'
+
+  protected initialValue() {
+    return { value: 0 }
+  }
+
+  set(labels: MetricLabels, value: number): void {
+    this.getSeries(labels).value = value
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    this.getSeries(labels).value += value
+  }
+
+  dec(labels: MetricLabels = {}, value = 1): void {
+    this.getSeries(labels).value -= value
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.getSeries(labels).value
+  }
+
+  protected formatSeries(
+    labels: Array<[string, string]>,
+    series: { value: number },
+  ) {
+    return [`${this.name}${formatLabels(labels)} ${series.value}`]
+  }
+}
+
+export class Histogram extends Metric<{
+  counts: number[]
+  sum: number
+  count: number
+}> {
+  readonly type = 'histogram'
+  readonly buckets: number[]
+
+  constructor(options: HistogramOptions) {
+    super(options)
+    this.buckets = options.buckets || DEFAULT_DURATION_BUCKETS
+  }
+
+  protected initialValue() {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const series = this.getSeries(labels)
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.counts[i]++
+    })
+    series.sum += value
+    series.count++
+  }
+
+  /**
+   * Start a timer; calling the returned function observes the elapsed seconds
+   */
+  startTimer(labels: MetricLabels = {}): () => number {
+    const start = process.hrtime.bigint()
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9
+      this.observe(labels, seconds)
+      return seconds
+    }
+  }
+
+  protected formatSeries(
+    labels: Array<[string, string]>,
+    series: { counts: number[]; sum: number; count: number },
+  ) {
+    const lines = this.buckets.map(
+      (bound, i) =>
+        `${this.name}_bucket${formatLabels([...labels, ['le', String(bound)]])} ${series.counts[i]}`,
+    )
+    lines.push(
+      `${this.name}_bucket${formatLabels([...labels, ['le', '+Inf']])} ${series.count}`,
+    )
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${series.sum}`)
+    lines.push(`${this.name}_count${formatLabels(labels)} ${series.count}`)
+    return lines
+  }
+}
+
+/**
+ * Collection of metrics rendered together on the metrics route.
+ * Creating a metric that already exists returns the existing one, so several
+ * MCPClients (or tools) can share a registry.
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Counter | Gauge | Histogram>()
+
+  counter(options: MetricOptions): Counter {
+    return this.getOrCreate(options.name, Counter, () => new Counter(options))
+  }
+
+  gauge(options: MetricOptions): Gauge {
+    return this.getOrCreate(options.name, Gauge, () => new Gauge(options))
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.getOrCreate(
+      options.name,
+      Histogram,
+      () => new Histogram(options),
+    )
+  }
+
+  getMetric(name: string): Counter | Gauge | Histogram | undefined {
+    return this.metrics.get(name)
+  }
+
+  /**
+   * Render every metric in the Prometheus text exposition format (version 0.0.4)
+   */
+  render(): string {
+    const blocks = [...this.metrics.values()].map((metric) => metric.render())
+    return blocks.length ? `${blocks.join('\n')}\n` : ''
+  }
+
+  resetAll(): void {
+    this.metrics.forEach((metric) => metric.reset())
+  }
+
+  private getOrCreate<T extends Counter | Gauge | Histogram>(
+    name: string,
+    type: new (...args: any[]) => T,
+    create: () => T,
+  ): T {
+    const existing = this.metrics.get(name)
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(
+          `Metric ${name} is already registered as a ${existing.type}`,
+        )
+      }
+      return existing
+    }
+    const metric = create()
+    this.metrics.set(name, metric)
+    return metric
+  }
+}
+
+/**
+ * Built-in MCPClient metrics, labelled by endpoint so clients can share a registry
+ */
+export class MCPMetrics {
+  readonly registry: MetricsRegistry
+  private endpoint: string
+  private sessionsOpened: Counter
+  private sessionsClosed: Counter
+  private activeSessions: Gauge
+  private toolCalls: Counter
+  private toolDuration: Histogram
+  private httpErrors: Counter
+
+  constructor(registry: MetricsRegistry, endpoint: string) {
+    this.registry = registry
+    this.endpoint = endpoint
+    this.sessionsOpened = registry.counter({
+      name: 'mcp_sessions_opened_total',
+      help: 'MCP sessions opened',
+      labelNames: ['endpoint', 'transport'],
+    })
+    this.sessionsClosed = registry.counter({
+      name: 'mcp_sessions_closed_total',
+      help: 'MCP sessions closed',
+      labelNames: ['endpoint', 'transport'],
+    })
+    this.activeSessions = registry.gauge({
+      name: 'mcp_active_sessions',
+      help: 'Currently open MCP sessions',
+      labelNames: ['endpoint', 'transport'],
+    })
+    this.toolCalls = registry.counter({
+      name: 'mcp_tool_calls_total',
+      help: 'Tool calls by tool and outcome',
+      labelNames: ['endpoint', 'tool', 'outcome'],
+    })
+    this.toolDuration = registry.histogram({
+      name: 'mcp_tool_call_duration_seconds',
+      help: 'Tool call latency in seconds',
+      labelNames: ['endpoint', 'tool'],
+    })
+    this.httpErrors = registry.counter({
+      name: 'mcp_http_errors_total',
+      help: 'MCP route responses with a 4xx or 5xx status',
+      labelNames: ['endpoint', 'route', 'status'],
+    })
+  }
+
+  sessionOpened(transport: string): void {
+    const labels = { endpoint: this.endpoint, transport }
+    this.sessionsOpened.inc(labels)
+    this.activeSessions.inc(labels)
+  }
+
+  sessionClosed(transport: string): void {
+    const labels = { endpoint: this.endpoint, transport }
+    this.sessionsClosed.inc(labels)
+    this.activeSessions.dec(labels)
+  }
+
+  toolCall(tool: string, outcome: ToolCallOutcome, durationMs: number): void {
+    this.toolCalls.inc({ endpoint: this.endpoint, tool, outcome })
+    // Denied and rate-limited calls never reach the handler
+    if (outcome !== 'success' && outcome !== 'error') return
+    this.toolDuration.observe(
+      { endpoint: this.endpoint, tool },
+      durationMs / 1000,
+    )
+  }
+
+  httpError(route: string, status: number): void {
+    this.httpErrors.inc({ endpoint: this.endpoint, route, status })
+  }
+}
+
+/**
+ * MCPClientOptions.metrics
+ */
+export interface MCPMetricsOptions {
+  path?: string // Route relative to the endpoint (default: '/metrics')
+  registry?: MetricsRegistry // Share a registry between clients or add custom metrics to it
+}
@@ -2,7 +2,7 @@ import { Logger } from '../types.js'
 
 export interface OnSignalsOptions {
   logger: Logger
-  cleanup?: () => void
+  cleanup?: () => void | Promise<void> // e.g. () => mcpClient.close()
 }
 
 /**
@@ -10,30 +10,36 @@ export interface OnSignalsOptions {
  *
  * @param options Configuration options
  * @param options.logger Logger instance
- * @param options.cleanup Optional cleanup function to be called before exit
+ * @param options.cleanup Optional cleanup function to be called before exit (awaited if async)
  */
 export function onSignals(options: OnSignalsOptions): void {
   const { logger, cleanup } = options
 
-  const handleSignal = (signal: string) => {
-    logger.info(`Caught ${signal}. Exiting...`)
+  let exiting = false
+  const exit = async (reason: string) => {
+    if (exiting) {
+      logger.info(`${reason} again. Forcing exit...`)
+      process.exit(1)
+    }
+    exiting = true
+    logger.info(`${reason}. Exiting...`)
     if (cleanup) {
-      cleanup()
+      try {
+        await cleanup()
+      } catch (error) {
+        logger.error('Error during cleanup:', error)
+      }
     }
     process.exit(0)
   }
 
+  const handleSignal = (signal: string) => exit(`Caught ${signal}`)
+
   process.on('SIGINT', () => handleSignal('SIGINT'))
 
   process.on('SIGTERM', () => handleSignal('SIGTERM'))
 
   process.on('SIGHUP', () => handleSignal('SIGHUP'))
 
-  process.stdin.on('close', () => {
-    logger.info('stdin closed. Exiting...')
-    if (cleanup) {
-      cleanup()
-    }
-    process.exit(0)
-  })
+  process.stdin.on('close', () => exit('stdin closed'))
 }
@@ -0,0 +1,95 @@
+import { z, ZodObject, ZodRawShape } from 'zod'
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js'
+import { ResourceContent } from './resources.js'
+import { AuthPrincipal } from './auth.js'
+
+// Type for a single prompt message
+export type PromptMessage = {
+  role: 'user' | 'assistant'
+  content:
+    | { type: 'text'; text: string }
+    | { type: 'image'; data: string; mimeType: string }
+    | { type: 'resource'; resource: ResourceContent }
+}
+
+// Type for prompts/get results
+export type PromptResult = {
+  description?: string
+  messages: PromptMessage[]
+}
+
+// Type for context parameter
+export type PromptContext = {
+  headers?: Record<string, string>
+  principal?: AuthPrincipal
+  [key: string]: any
+}
+
+/**
+ * MCPClient prompt implementation type
+ */
+export interface PromptImpl<T = any> {
+  name: string
+  description?: string
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>
+  handler: (args: T, context?: PromptContext) => Promise<PromptResult>
+}
+
+/**
+ * Creates a reusable MCP prompt template with argument validation using a Zod schema.
+ * Prompt arguments are always strings on the wire, so the schema should be an object of
+ * (optionally coerced) string fields.
+ *
+ * @param options Prompt configuration with argument schema and message-building handler
+ * @returns A prompt implementation compatible with MCPClient
+ */
+export function mcpPrompt<TShape extends ZodRawShape>({
+  name,
+  description,
+  schema,
+  handler,
+}: {
+  name: string
+  description?: string
+  schema: ZodObject<TShape>
+  handler: (
+    args: z.infer<ZodObject<TShape>>,
+    context?: PromptContext,
+  ) => Promise<string | PromptMessage[]>
+}): PromptImpl<z.infer<ZodObject<TShape>>> {
+  // Derive the advertised argument list from the schema shape
+  const promptArguments = Object.entries(schema.shape).map(([key, field]) => ({
+    name: key,
+    description: field.description,
+    required: !field.isOptional(),
+  }))
+
+  return {
+    name,
+    description,
+    arguments: promptArguments,
+    handler: async (args, context) => {
+      const parsed = schema.safeParse(args || {})
+      if (!parsed.success) {
+        const errorMessage = parsed.error.errors
+          .map((e) => `${e.path.join('.')}: ${e.message}`)
+          .join(', ')
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Prompt argument validation error: ${errorMessage}`,
+        )
+      }
+
+      const result = await handler(parsed.data, context)
+
+      // A plain string becomes a single user message
+      if (typeof result === 'string') {
+        return {
+          description,
+          messages: [{ role: 'user', content: { type: 'text', text: result } }],
+        }
+      }
+      return { description, messages: result }
+    },
+  }
+}
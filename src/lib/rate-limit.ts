@@ -0,0 +1,251 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js'
+
+// JSON-RPC error code for rejected tool calls (mirrors HTTP 429)
+export const RATE_LIMITED = -32029
+
+// Retry hint for rejections caused by the in-flight limit
+const IN_FLIGHT_RETRY_AFTER_MS = 1000
+
+/**
+ * A single limit: a token bucket, a max number of concurrent calls, or both
+ */
+export interface RateLimit {
+  capacity?: number // Bucket size, i.e. the allowed burst
+  refillPerSecond?: number // Tokens added back per second
+  maxInFlight?: number // Max concurrent tool calls
+}
+
+/**
+ * Tool call limits applied by MCPClient
+ */
+export interface RateLimitOptions {
+  perSession?: RateLimit // Keyed by MCP session
+  perPrincipal?: RateLimit // Keyed by authenticated principal id
+  perTool?: Record<string, RateLimit> // Keyed by tool name, shared by all callers
+  store?: RateLimitStore // Defaults to MemoryRateLimitStore
+}
+
+/**
+ * Storage backend for token buckets and in-flight counters.
+ * Implement this to share limits between replicas (e.g. on Redis).
+ */
+export interface RateLimitStore {
+  // Take one token; returns how long to wait when the bucket is empty
+  // (retryAfterMs is undefined when the bucket never refills)
+  consume(
+    key: string,
+    capacity: number,
+    refillPerSecond: number,
+  ): Promise<{ allowed: boolean; retryAfterMs?: number }>
+  // Give back a token taken by consume(), when a later limit rejected the call
+  refund?(key: string, capacity: number): Promise<void>
+  // Reserve an in-flight slot; returns false when max is reached
+  acquire(key: string, max: number): Promise<boolean>
+  release(key: string): Promise<void>
+  // Drop all state for a key (e.g. when a session closes)
+  reset?(key: string): Promise<void>
+}
+
+/**
+ * In-process RateLimitStore
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>()
+  private inFlight = new Map<string, number>()
+
+  async consume(
+    key: string,
+    capacity: number,
+    refillPerSecond: number,
+  ): Promise<{ allowed: boolean; retryAfterMs?: number }> {
+    const now = Date.now()
+    const bucket = this.buckets.get(key) || { tokens: capacity, updatedAt: now }
+    const elapsed = (now - bucket.updatedAt) / 1000
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + elapsed * refillPerSecond,
+    )
+    bucket.updatedAt = now
+    this.buckets.set(key, bucket)
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1
+      return { allowed: true, retryAfterMs: 0 }
+    }
+    const retryAfterMs =
+      refillPerSecond > 0
+        ? Math.ceil(((1 - bucket.tokens) / refillPerSecond) * 1000)
+        : undefined
+    return { allowed: false, retryAfterMs }
+  }
+
+  async refund(key: string, capacity: number): Promise<void> {
+    const bucket = this.buckets.get(key)
+    if (bucket) bucket.tokens = Math.min(capacity, bucket.tokens + 1)
+  }
+
+  async acquire(key: string, max: number): Promise<boolean> {
+    const current = this.inFlight.get(key) || 0
+    if (current >= max) return false
+    this.inFlight.set(key, current + 1)
+    return true
+  }
+
+  async release(key: string): Promise<void> {
+    const current = this.inFlight.get(key) || 0
+    if (current <= 1) {
+      this.inFlight.delete(key)
+    } else {
+      this.inFlight.set(key, current - 1)
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.buckets.delete(key)
+    this.inFlight.delete(key)
+  }
+}
+
+/**
+ * Structured details of a RateLimitError, sent as the JSON-RPC error `data`
+ */
+export interface RateLimitErrorData {
+  limit: 'session' | 'principal' | 'tool'
+  reason: 'rate' | 'concurrency'
+  retryAfterMs?: number // Missing when the bucket never refills
+  retryAfterSeconds?: number
+}
+
+/**
+ * Error returned to the client when a tool call exceeds a limit.
+ * The retry-after hint is part of the message; `data` carries it in structured form.
+ */
+export class RateLimitError extends McpError {
+  declare data: RateLimitErrorData
+
+  constructor(message: string, data: RateLimitErrorData) {
+    super(RATE_LIMITED, message, data)
+    this.name = 'RateLimitError'
+    // The client prefixes "MCP error <code>:" itself; don't send it twice
+    this.message = message
+  }
+}
+
+/**
+ * Applies RateLimitOptions to tool calls
+ */
+export class RateLimiter {
+  private options: RateLimitOptions
+  private store: RateLimitStore
+
+  constructor(options: RateLimitOptions) {
+    this.options = options
+    this.store = options.store || new MemoryRateLimitStore()
+  }
+
+  /**
+   * Check every applicable limit for a tool call.
+   * Throws a RateLimitError when a limit is exceeded.
+   *
+   * @returns A function that must be called when the tool call finishes
+   */
+  async acquire(call: {
+    sessionId?: string
+    principalId?: string
+    toolName: string
+  }): Promise<() => Promise<void>> {
+    const limits: Array<{
+      kind: 'session' | 'principal' | 'tool'
+      key: string
+      limit: RateLimit
+    }> = []
+    if (this.options.perSession && call.sessionId) {
+      limits.push({
+        kind: 'session',
+        key: `session:${call.sessionId}`,
+        limit: this.options.perSession,
+      })
+    }
+    if (this.options.perPrincipal && call.principalId) {
+      limits.push({
+        kind: 'principal',
+        key: `principal:${call.principalId}`,
+        limit: this.options.perPrincipal,
+      })
+    }
+    const toolLimit = this.options.perTool?.[call.toolName]
+    if (toolLimit) {
+      limits.push({
+        kind: 'tool',
+        key: `tool:${call.toolName}`,
+        limit: toolLimit,
+      })
+    }
+
+    // Reserve in-flight slots first so a rejected call doesn't burn tokens
+    const acquired: string[] = []
+    const releaseAll = async () => {
+      await Promise.all(acquired.map((key) => this.store.release(key)))
+    }
+    for (const { kind, key, limit } of limits) {
+      if (limit.maxInFlight === undefined) continue
+      const inFlightKey = `inflight:${key}`
+      if (!(await this.store.acquire(inFlightKey, limit.maxInFlight))) {
+        await releaseAll()
+        throw this.rejection(kind, 'concurrency', IN_FLIGHT_RETRY_AFTER_MS)
+      }
+      acquired.push(inFlightKey)
+    }
+
+    // Tokens taken before a later bucket rejects are refunded (if the store supports it)
+    const consumed: Array<{ key: string; capacity: number }> = []
+    for (const { kind, key, limit } of limits) {
+      if (limit.capacity === undefined) continue
+      const bucketKey = `bucket:${key}`
+      const { allowed, retryAfterMs } = await this.store.consume(
+        bucketKey,
+        limit.capacity,
+        limit.refillPerSecond ?? 0,
+      )
+      if (!allowed) {
+        await Promise.all(
+          consumed.map((b) => this.store.refund?.(b.key, b.capacity)),
+        )
+        await releaseAll()
+        throw this.rejection(kind, 'rate', retryAfterMs)
+      }
+      consumed.push({ key: bucketKey, capacity: limit.capacity })
+    }
+
+    return releaseAll
+  }
+
+  /**
+   * Drop the per-session state once a session has closed
+   */
+  async forgetSession(sessionId: string): Promise<void> {
+    const key = `session:${sessionId}`
+    await this.store.reset?.(`inflight:${key}`)
+    await this.store.reset?.(`bucket:${key}`)
+  }
+
+  private rejection(
+    limit: 'session' | 'principal' | 'tool',
+    reason: 'rate' | 'concurrency',
+    retryAfterMs?: number,
+  ): RateLimitError {
+    const retryHint =
+      retryAfterMs !== undefined ? `, retry after ${retryAfterMs}ms` : ''
+    const message =
+      reason === 'rate'
+        ? `Rate limit exceeded (${limit})${retryHint}`
+        : `Too many concurrent tool calls (${limit})${retryHint}`
+    return new RateLimitError(message, {
+      limit,
+      reason,
+      ...(retryAfterMs !== undefined
+        ? { retryAfterMs, retryAfterSeconds: Math.ceil(retryAfterMs / 1000) }
+        : {}),
+    })
+  }
+}
@@ -0,0 +1,54 @@
+import { AuthPrincipal } from './auth.js'
+
+// Type for a single resource content item (text or base64 blob)
+export type ResourceContent =
+  | { uri: string; mimeType?: string; text: string }
+  | { uri: string; mimeType?: string; blob: string }
+
+// Type for resources/read results
+export type ResourceReadResult = {
+  contents: ResourceContent[]
+}
+
+// Type for context parameter
+export type ResourceContext = {
+  headers?: Record<string, string>
+  principal?: AuthPrincipal
+  [key: string]: any
+}
+
+/**
+ * Static resource with a fixed URI
+ */
+export interface ResourceImpl {
+  uri: string
+  name: string
+  description?: string
+  mimeType?: string
+  handler: (uri: URL, context?: ResourceContext) => Promise<ResourceReadResult>
+}
+
+/**
+ * Resource template (RFC 6570 URI template, e.g. `db://users/{id}`)
+ * The handler receives the variables extracted from the requested URI.
+ */
+export interface ResourceTemplateImpl {
+  uriTemplate: string
+  name: string
+  description?: string
+  mimeType?: string
+  handler: (
+    uri: URL,
+    variables: Record<string, string | string[]>,
+    context?: ResourceContext,
+  ) => Promise<ResourceReadResult>
+}
+
+/**
+ * Check whether a resource definition is a URI template
+ */
+export function isResourceTemplate(
+  resource: ResourceImpl | ResourceTemplateImpl,
+): resource is ResourceTemplateImpl {
+  return 'uriTemplate' in resource
+}
@@ -0,0 +1,149 @@
+import type { ServerResponse } from 'node:http'
+import { randomUUID } from 'node:crypto'
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import {
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  MessageExtraInfo,
+} from '@modelcontextprotocol/sdk/types.js'
+import { EventStore } from './event-store.js'
+
+/**
+ * Legacy SSE server transport whose session outlives its HTTP stream.
+ * Every outgoing message is stored in an EventStore and sent with an `id:` of
+ * `<sessionId>:<eventId>`; a client reconnecting with that Last-Event-ID is attached
+ * again and receives everything it missed, including results produced while it was away.
+ */
+export class ResumableSSEServerTransport implements Transport {
+  readonly sessionId = randomUUID()
+  onclose?: () => void
+  onerror?: (error: Error) => void
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void
+  ondetach?: () => void // The live stream closed; the session waits for a reconnect
+
+  private endpoint: string
+  private eventStore: EventStore
+  private response?: ServerResponse
+  private closed = false
+  // Stores, writes and re-attaches run one at a time so a replay can't interleave with live events
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(endpoint: string, eventStore: EventStore) {
+    this.endpoint = endpoint
+    this.eventStore = eventStore
+  }
+
+  /**
+   * Split a Last-Event-ID sent by a reconnecting client into session and store event id
+   */
+  static parseEventId(
+    lastEventId: string,
+  ): { sessionId: string; eventId: string } | undefined {
+    const separator = lastEventId.indexOf(':')
+    if (separator <= 0) return undefined
+    return {
+      sessionId: lastEventId.slice(0, separator),
+      eventId: lastEventId.slice(separator + 1),
+    }
+  }
+
+  // Streams are attached with attach(), so there is nothing to do on connect
+  async start(): Promise<void> {}
+
+  /**
+   * Make `res` the live stream for this session, replacing any previous one.
+   * With a lastEventId, stored events after it are replayed first.
+   */
+  attach(res: ServerResponse, lastEventId?: string): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.response && this.response !== res) {
+        this.response.end()
+      }
+      this.response = undefined
+
+      if (!res.headersSent) {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          Connection: 'keep-alive',
+        })
+      }
+      // Same relative endpoint URL as the SDK's SSEServerTransport
+      const endpointUrl = new URL(this.endpoint, 'http://localhost')
+      endpointUrl.searchParams.set('sessionId', this.sessionId)
+      res.write(
+        `event: endpoint\ndata: ${endpointUrl.pathname}${endpointUrl.search}${endpointUrl.hash}\n\n`,
+      )
+
+      if (lastEventId) {
+        await this.eventStore.replayEventsAfter(lastEventId, {
+          send: async (eventId, message) =>
+            this.writeEvent(res, eventId, message),
+        })
+      }
+      this.response = res
+
+      // A stream replaced by a newer reconnect closes without detaching the session
+      const onClose = () => {
+        if (this.response !== res) return
+        this.response = undefined
+        if (!this.closed) this.ondetach?.()
+      }
+      if (res.destroyed) {
+        onClose()
+      } else {
+        res.on('close', onClose)
+      }
+    })
+  }
+
+  async handleMessage(message: unknown, extra?: MessageExtraInfo) {
+    let parsedMessage: JSONRPCMessage
+    try {
+      parsedMessage = JSONRPCMessageSchema.parse(message)
+    } catch (error) {
+      this.onerror?.(error as Error)
+      throw error
+    }
+    this.onmessage?.(parsedMessage, extra)
+  }
+
+  send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new Error('Not connected'))
+    }
+    // Stored even while detached, so the client gets it after reconnecting
+    return this.enqueue(async () => {
+      const eventId = await this.eventStore.storeEvent(this.sessionId, message)
+      if (this.response) {
+        this.writeEvent(this.response, eventId, message)
+      }
+    })
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return
+    this.closed = true
+    await this.queue // Flush queued sends (e.g. the last tool results) first
+    this.response?.end()
+    this.response = undefined
+    this.onclose?.()
+  }
+
+  private writeEvent(
+    res: ServerResponse,
+    eventId: string,
+    message: JSONRPCMessage,
+  ): void {
+    if (res.writableEnded || res.destroyed) return
+    res.write(
+      `id: ${this.sessionId}:${eventId}\nevent: message\ndata: ${JSON.stringify(message)}\n\n`,
+    )
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task)
+    this.queue = run.catch(() => {}) // Keep the queue going after a failure
+    return run
+  }
+}
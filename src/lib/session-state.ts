@@ -0,0 +1,102 @@
+/**
+ * Backing store for per-session tool state (context.session).
+ * MCPClient clears a session's keys when the session closes.
+ */
+export interface SessionStateStore {
+  get(sessionId: string, key: string): Promise<unknown>
+  // ttlMs: drop the value after this many milliseconds (undefined keeps it until the session closes)
+  set(
+    sessionId: string,
+    key: string,
+    value: unknown,
+    ttlMs?: number,
+  ): Promise<void>
+  // Returns whether the key existed
+  delete(sessionId: string, key: string): Promise<boolean>
+  clear(sessionId: string): Promise<void>
+}
+
+/**
+ * Key/value state scoped to the calling session, exposed to handlers as context.session
+ */
+export interface SessionState {
+  get<T = unknown>(key: string): Promise<T | undefined>
+  set(key: string, value: unknown, options?: { ttlMs?: number }): Promise<void>
+  delete(key: string): Promise<boolean>
+}
+
+/**
+ * MCPClientOptions.sessionState
+ */
+export interface SessionStateOptions {
+  store?: SessionStateStore // Default: MemorySessionStateStore
+  defaultTtlMs?: number // TTL for set() calls without one (default: none)
+}
+
+/**
+ * In-process SessionStateStore. Values are kept by reference and expire lazily.
+ */
+export class MemorySessionStateStore implements SessionStateStore {
+  private sessions = new Map<
+    string,
+    Map<string, { value: unknown; expiresAt?: number }>
+  >()
+
+  async get(sessionId: string, key: string): Promise<unknown> {
+    const entries = this.sessions.get(sessionId)
+    const entry = entries?.get(key)
+    if (!entry) return undefined
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      entries!.delete(key)
+      return undefined
+    }
+    return entry.value
+  }
+
+  async set(
+    sessionId: string,
+    key: string,
+    value: unknown,
+    ttlMs?: number,
+  ): Promise<void> {
+    let entries = this.sessions.get(sessionId)
+    if (!entries) {
+      entries = new Map()
+      this.sessions.set(sessionId, entries)
+    }
+    entries.set(key, {
+      value,
+      expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined,
+    })
+  }
+
+  async delete(sessionId: string, key: string): Promise<boolean> {
+    const entries = this.sessions.get(sessionId)
+    const entry = entries?.get(key)
+    if (!entry) return false
+    entries!.delete(key)
+    // An expired entry counts as already gone
+    return entry.expiresAt === undefined || entry.expiresAt > Date.now()
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId)
+  }
+}
+
+/**
+ * Bind a store to one session, applying the default TTL
+ */
+export function bindSessionState(
+  store: SessionStateStore,
+  sessionId: string,
+  defaultTtlMs?: number,
+): SessionState {
+  return {
+    get: async <T = unknown>(key: string) =>
+      (await store.get(sessionId, key)) as T | undefined,
+    set: (key, value, options) =>
+      store.set(sessionId, key, value, options?.ttlMs ?? defaultTtlMs),
+    delete: (key) => store.delete(sessionId, key),
+  }
+}
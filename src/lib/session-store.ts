@@ -0,0 +1,271 @@
+import { randomUUID } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+
+/**
+ * A POST /message body forwarded to the instance that owns the SSE stream
+ */
+export interface RoutedMessage {
+  body: unknown // Parsed JSON-RPC message
+  headers: Record<string, string> // Headers of the original POST minus redact.headers, exposed as context.headers
+  principalId?: string // Authenticated caller, checked again by the owner
+}
+
+/**
+ * What other instances need to know about a session before routing to it
+ */
+export interface SessionOwnerInfo {
+  principalId?: string // Caller that opened the session, when authentication is enabled
+}
+
+export type DeliverFn = (message: RoutedMessage) => void | Promise<void>
+
+/**
+ * Shared session registry + message bus for running several MCPClient replicas
+ * without sticky load balancing. The instance holding a session's SSE stream registers it;
+ * any instance receiving a POST /message for an unknown session routes it through the store.
+ */
+export interface SessionStore {
+  // Claim a session for this instance; deliver is called for every message routed to it
+  register(
+    sessionId: string,
+    info: SessionOwnerInfo,
+    deliver: DeliverFn,
+  ): Promise<void>
+  unregister(sessionId: string): Promise<void>
+  // Look up a session owned by any instance
+  get(sessionId: string): Promise<SessionOwnerInfo | undefined>
+  // Hand a message to the owning instance; returns false when no instance owns the session
+  route(sessionId: string, message: RoutedMessage): Promise<boolean>
+  // Release timers/handles
+  close?(): Promise<void>
+}
+
+/**
+ * In-process SessionStore, for several MCPClient instances in one process
+ */
+export class MemorySessionStore implements SessionStore {
+  private owners = new Map<
+    string,
+    { info: SessionOwnerInfo; deliver: DeliverFn }
+  >()
+
+  async register(
+    sessionId: string,
+    info: SessionOwnerInfo,
+    deliver: DeliverFn,
+  ): Promise<void> {
+    this.owners.set(sessionId, { info, deliver })
+  }
+
+  async unregister(sessionId: string): Promise<void> {
+    this.owners.delete(sessionId)
+  }
+
+  async get(sessionId: string): Promise<SessionOwnerInfo | undefined> {
+    return this.owners.get(sessionId)?.info
+  }
+
+  async route(sessionId: string, message: RoutedMessage): Promise<boolean> {
+    const owner = this.owners.get(sessionId)
+    if (!owner) return false
+    await owner.deliver(message)
+    return true
+  }
+}
+
+export interface FileSessionStoreOptions {
+  directory: string // Shared by every instance (e.g. a volume mounted into each replica)
+  pollIntervalMs?: number // How often owned inboxes are checked (default: 50)
+  reservationTimeoutMs?: number // Skip a sequence number whose message never arrived after this long (default: 5000)
+  onError?: (error: unknown, sessionId: string) => void // A routed message couldn't be read or delivered (default: ignored)
+}
+
+// Session ids end up in paths, so only accept the SDK's UUID-like ids
+const SAFE_SESSION_ID = /^[A-Za-z0-9_-]+$/
+const OWNER_FILE = 'owner.json'
+const SEQUENCE_PREFIX = 'seq-'
+const MESSAGE_PREFIX = 'msg-'
+
+// Zero-padded so a sorted listing is numeric order
+const formatSeq = (seq: number) => seq.toString().padStart(15, '0')
+
+/**
+ * Reference SessionStore backed by a shared directory.
+ * Each session is a folder holding an owner.json and an inbox of message files.
+ * Senders reserve the next sequence number by creating `seq-<n>` exclusively, then
+ * write `msg-<n>.json`; the owning instance polls its inboxes and delivers messages
+ * strictly in sequence order, so one sender's messages arrive in the order it routed them.
+ * Folders of instances that crash are not reclaimed; clean the directory on deploy.
+ */
+export class FileSessionStore implements SessionStore {
+  private directory: string
+  private pollIntervalMs: number
+  private reservationTimeoutMs: number
+  private onError?: (error: unknown, sessionId: string) => void
+  private owned = new Map<string, { deliver: DeliverFn; nextSeq: number }>()
+  private timer?: NodeJS.Timeout
+  private polling = false
+
+  constructor(options: FileSessionStoreOptions) {
+    this.directory = options.directory
+    this.pollIntervalMs = options.pollIntervalMs ?? 50
+    this.reservationTimeoutMs = options.reservationTimeoutMs ?? 5000
+    this.onError = options.onError
+  }
+
+  async register(
+    sessionId: string,
+    info: SessionOwnerInfo,
+    deliver: DeliverFn,
+  ): Promise<void> {
+    const dir = this.sessionDir(sessionId)
+    if (!dir) throw new Error(`Invalid session id: ${sessionId}`)
+    await fs.mkdir(dir, { recursive: true })
+    await this.writeAtomic(path.join(dir, OWNER_FILE), info)
+    this.owned.set(sessionId, { deliver, nextSeq: 1 })
+    this.startPolling()
+  }
+
+  async unregister(sessionId: string): Promise<void> {
+    this.owned.delete(sessionId)
+    if (this.owned.size === 0) this.stopPolling()
+    const dir = this.sessionDir(sessionId)
+    if (dir) await fs.rm(dir, { recursive: true, force: true })
+  }
+
+  async get(sessionId: string): Promise<SessionOwnerInfo | undefined> {
+    const dir = this.sessionDir(sessionId)
+    if (!dir) return undefined
+    try {
+      return JSON.parse(await fs.readFile(path.join(dir, OWNER_FILE), 'utf8'))
+    } catch {
+      return undefined
+    }
+  }
+
+  async route(sessionId: string, message: RoutedMessage): Promise<boolean> {
+    if (!(await this.get(sessionId))) return false
+    const dir = this.sessionDir(sessionId)!
+    try {
+      const seq = await this.reserveSeq(dir)
+      await this.writeAtomic(
+        path.join(dir, `${MESSAGE_PREFIX}${formatSeq(seq)}.json`),
+        message,
+      )
+    } catch {
+      return false // The owner unregistered in the meantime
+    }
+    return true
+  }
+
+  async close(): Promise<void> {
+    this.stopPolling()
+    await Promise.all([...this.owned.keys()].map((id) => this.unregister(id)))
+  }
+
+  private sessionDir(sessionId: string): string | undefined {
+    return SAFE_SESSION_ID.test(sessionId)
+      ? path.join(this.directory, sessionId)
+      : undefined
+  }
+
+  /**
+   * Claim the next sequence number of an inbox. Creating `seq-<n>` with O_EXCL
+   * means two senders racing for the same number can't both win.
+   */
+  private async reserveSeq(dir: string): Promise<number> {
+    const files = await fs.readdir(dir)
+    let seq =
+      files
+        .filter((f) => f.startsWith(SEQUENCE_PREFIX))
+        .map((f) => Number(f.slice(SEQUENCE_PREFIX.length)))
+        .reduce((max, n) => (n > max ? n : max), 0) + 1
+    for (;;) {
+      try {
+        const handle = await fs.open(
+          path.join(dir, `${SEQUENCE_PREFIX}${formatSeq(seq)}`),
+          'wx',
+        )
+        await handle.close()
+        return seq
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+        seq++
+      }
+    }
+  }
+
+  /**
+   * Write to a temp file and rename, so readers never see a partial message
+   */
+  private async writeAtomic(file: string, data: unknown): Promise<void> {
+    const tmp = `${file}.${randomUUID()}.tmp`
+    await fs.writeFile(tmp, JSON.stringify(data))
+    await fs.rename(tmp, file)
+  }
+
+  private startPolling(): void {
+    if (this.timer) return
+    this.timer = setInterval(() => {
+      if (this.polling) return
+      this.polling = true
+      this.poll().finally(() => {
+        this.polling = false
+      })
+    }, this.pollIntervalMs)
+    this.timer.unref() // Don't keep the process alive just for the inbox
+  }
+
+  private stopPolling(): void {
+    clearInterval(this.timer)
+    this.timer = undefined
+  }
+
+  private async poll(): Promise<void> {
+    for (const [sessionId, inbox] of this.owned) {
+      const dir = this.sessionDir(sessionId)!
+      for (;;) {
+        const seq = inbox.nextSeq
+        const file = `${MESSAGE_PREFIX}${formatSeq(seq)}.json`
+        const filePath = path.join(dir, file)
+        let raw: string
+        try {
+          raw = await fs.readFile(filePath, 'utf8')
+        } catch {
+          // Not written yet; wait unless its sender died after reserving the number
+          if (!(await this.isAbandoned(dir, seq))) break
+          raw = ''
+        }
+        inbox.nextSeq++
+        // Keep the newest reservation so senders never reuse a consumed number
+        await fs
+          .rm(path.join(dir, `${SEQUENCE_PREFIX}${formatSeq(seq - 1)}`), {
+            force: true,
+          })
+          .catch(() => {})
+        if (!raw) continue
+        try {
+          await fs.unlink(filePath) // Consume before delivering so a bad file isn't retried forever
+          await inbox.deliver(JSON.parse(raw))
+        } catch (error) {
+          this.onError?.(error, sessionId)
+        }
+      }
+    }
+  }
+
+  /**
+   * Whether sequence number `seq` was reserved long enough ago that its message is lost
+   */
+  private async isAbandoned(dir: string, seq: number): Promise<boolean> {
+    try {
+      const stat = await fs.stat(
+        path.join(dir, `${SEQUENCE_PREFIX}${formatSeq(seq)}`),
+      )
+      return Date.now() - stat.mtimeMs > this.reservationTimeoutMs
+    } catch {
+      return false // Not reserved yet
+    }
+  }
+}
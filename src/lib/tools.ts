@@ -1,7 +1,7 @@
 import { z, ZodType } from 'zod'
 import { Tool } from '@modelcontextprotocol/sdk/types.js'
 import { zodToJsonSchema } from 'zod-to-json-schema'
-import { ToolImpl } from './mcp-client.js'
+import { ToolContext, ToolMiddleware } from './mcp-client.js'
 
 // Type for MCP content item
 type McpContentItem =
@@ -14,14 +14,10 @@ type McpResponse = {
   isError?: boolean
 }
 
-// Type for context parameter
-type ToolContext = {
-  headers?: Record<string, string>
-  [key: string]: any
-}
-
 /**
  * Creates a type-safe MCP tool with input and output validation using Zod schemas.
+ * The context type is inferred from the handler's context annotation
+ * (e.g. `ToolContext<{ tenantId: string }>`) and must match the MCPClient's createContext.
  *
  * @param options Tool configuration with input/output schemas and simplified handler
  * @returns A tool implementation compatible with MCPClient
@@ -29,28 +25,41 @@ type ToolContext = {
 export function mcpTool<
   TInput extends ZodType,
   TOutput extends ZodType | undefined = undefined,
+  TContext extends object = {},
 >({
   name,
   description,
   schema,
   outputSchema,
+  requiredScopes,
+  canAccess,
+  timeoutMs,
+  middleware,
   handler,
 }: {
   name: string
   description: string
   schema: TInput
   outputSchema?: TOutput
+  requiredScopes?: string[]
+  canAccess?: (context: ToolContext<TContext>) => boolean | Promise<boolean>
+  timeoutMs?: number
+  middleware?: ToolMiddleware[]
   handler: (
     args: z.infer<TInput>,
-    context?: ToolContext,
+    context: ToolContext<TContext>,
   ) => Promise<TOutput extends ZodType ? z.infer<TOutput> : string>
 }): {
   name: string
   description: string
   inputSchema: Tool['inputSchema']
+  requiredScopes?: string[]
+  canAccess?: (context: ToolContext<TContext>) => boolean | Promise<boolean>
+  timeoutMs?: number
+  middleware?: ToolMiddleware[]
   handler: (
     args: z.infer<TInput>,
-    context?: ToolContext,
+    context?: ToolContext<TContext>,
   ) => Promise<McpResponse>
 } {
   // Convert input Zod schema to JSON Schema
@@ -83,13 +92,20 @@ export function mcpTool<
     name,
     description,
     inputSchema: enhancedInputSchema as Tool['inputSchema'],
+    requiredScopes,
+    canAccess,
+    timeoutMs,
+    middleware,
     handler: async (args, context) => {
       // Validate args against schema before passing to handler
       try {
         const validatedArgs = schema.parse(args)
 
-        // Call the handler with validated args and context
-        const result = await handler(validatedArgs, context)
+        // Call the handler with validated args and context (empty when called directly)
+        const result = await handler(
+          validatedArgs,
+          context || ({} as ToolContext<TContext>),
+        )
 
         // Validate output if schema provided
         if (outputSchema) {
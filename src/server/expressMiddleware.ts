@@ -1,8 +1,9 @@
 import express, { Request, Response, Router } from 'express'
 import { Server } from '@modelcontextprotocol/sdk/server/index.js'
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
-import { Tool } from '@modelcontextprotocol/sdk/types.js'
+import { Tool, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js'
 import { Logger } from '../types.js'
+import { PromptImpl } from '../lib/prompts.js'
 import { z } from 'zod'
 
 // Define a tool implementation that includes both the tool definition and its handler
@@ -14,9 +15,11 @@ export interface ToolImplementation {
 export interface MCPServerOptions {
   endpoint: string
   tools?: ToolImplementation[]
+  prompts?: PromptImpl[]
   serverName?: string
   serverVersion?: string
   logger?: Logger
+  pingIntervalMs?: number // SSE keep-alive comment interval, 0 disables it (default: 20000)
 }
 
 const defaultLogger: Logger = {
@@ -28,9 +31,11 @@ export function MCPServer(options: MCPServerOptions): Router {
   const {
     endpoint,
     tools = [],
+    prompts = [],
     serverName = 'mcp-server',
     serverVersion = '0.1.0',
     logger = defaultLogger,
+    pingIntervalMs = 20000,
   } = options
 
   // Normalize endpoint to ensure it starts with '/' and doesn't end with '/'
@@ -74,7 +79,35 @@ export function MCPServer(options: MCPServerOptions): Router {
   })
   server.setRequestHandler(PromptsListSchema, async () => {
     logger.info('Handling prompts/list request')
-    return { prompts: [] }
+    return {
+      prompts: prompts.map((prompt) => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments,
+      })),
+    }
+  })
+
+  // prompts/get handler
+  const GetPromptRequestSchema = z.object({
+    method: z.literal('prompts/get'),
+    params: z.object({
+      name: z.string(),
+      arguments: z.record(z.string()).optional(),
+    }),
+  })
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const promptName = request.params.name
+    logger.info(`Handling prompts/get for ${promptName}`)
+
+    const prompt = prompts.find((p) => p.name === promptName)
+    if (!prompt) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown prompt called: ${promptName}`,
+      )
+    }
+    return await prompt.handler(request.params.arguments || {})
   })
 
   // tools/call handler
@@ -151,13 +184,15 @@ export function MCPServer(options: MCPServerOptions): Router {
     const transport = new SSEServerTransport(msgUrl, res)
 
     // Periodic ping to keep connection alive
-    const pingInterval = setInterval(() => {
-      try {
-        res.write(': ping\n\n')
-      } catch (e) {
-        clearInterval(pingInterval)
-      }
-    }, 20000)
+    const pingInterval = pingIntervalMs
+      ? setInterval(() => {
+          try {
+            res.write(': ping\n\n')
+          } catch (e) {
+            clearInterval(pingInterval)
+          }
+        }, pingIntervalMs)
+      : undefined
 
     // Clean up on connection close
     req.on('close', () => {
@@ -1,9 +1,43 @@
-import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
-import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import {
+  Transport,
+  TransportSendOptions,
+} from '@modelcontextprotocol/sdk/shared/transport.js'
+import {
+  JSONRPCMessage,
+  RequestId,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+} from '@modelcontextprotocol/sdk/types.js'
 import { v4 as uuidv4 } from 'uuid'
 import { WebSocket, WebSocketServer } from 'ws'
 import { Server } from 'http'
 
+/**
+ * Request ids are prefixed with the client id on the way in, so the response
+ * (or a notification related to the request) can be routed back to that client.
+ * The original id is kept as JSON to restore its type.
+ */
+function prefixId(clientId: string, id: RequestId): string {
+  return `${clientId}:${JSON.stringify(id)}`
+}
+
+function parsePrefixedId(
+  id: RequestId | undefined,
+): { clientId: string; id: RequestId } | undefined {
+  if (typeof id !== 'string') return undefined
+  const separator = id.indexOf(':')
+  if (separator <= 0) return undefined
+  try {
+    return {
+      clientId: id.slice(0, separator),
+      id: JSON.parse(id.slice(separator + 1)),
+    }
+  } catch {
+    return undefined
+  }
+}
+
 export class WebSocketServerTransport implements Transport {
   private wss!: WebSocketServer
   private clients: Map<string, WebSocket> = new Map()
@@ -17,17 +51,10 @@ export class WebSocketServerTransport implements Transport {
   set onmessage(handler: ((message: JSONRPCMessage) => void) | undefined) {
     this.messageHandler = handler
       ? (msg, clientId) => {
-          // @ts-ignore
-          if (msg.id === undefined) {
-            console.log('Broadcast message:', msg)
+          if (!('id' in msg) || msg.id === undefined) {
             return handler(msg)
           }
-          // @ts-ignore
-          return handler({
-            ...msg,
-            // @ts-ignore
-            id: clientId + ':' + msg.id,
-          })
+          return handler({ ...msg, id: prefixId(clientId, msg.id) })
         }
       : undefined
   }
@@ -65,21 +92,41 @@ export class WebSocketServerTransport implements Transport {
     })
   }
 
-  async send(msg: JSONRPCMessage, clientId?: string): Promise<void> {
-    const [cId, msgId] = clientId?.split(':') ?? []
-    // @ts-ignore
-    msg.id = parseInt(msgId)
-    const data = JSON.stringify(msg)
+  /**
+   * Responses go to the client that sent the request, notifications tied to a
+   * request (options.relatedRequestId) to that request's client; anything else
+   * is broadcast to every connected client.
+   */
+  async send(
+    msg: JSONRPCMessage,
+    options?: TransportSendOptions,
+  ): Promise<void> {
+    let target: string | undefined
+    let outgoing = msg
+    if (isJSONRPCResponse(msg) || isJSONRPCError(msg)) {
+      const parsed = parsePrefixedId(msg.id)
+      if (parsed) {
+        target = parsed.clientId
+        outgoing = { ...msg, id: parsed.id }
+      }
+    } else if (!isJSONRPCRequest(msg)) {
+      target = parsePrefixedId(options?.relatedRequestId)?.clientId
+    }
+    const data = JSON.stringify(outgoing)
     const deadClients: string[] = []
 
-    if (cId) {
+    if (target) {
       // Send to specific client
-      const client = this.clients.get(cId)
+      const client = this.clients.get(target)
       if (client?.readyState === WebSocket.OPEN) {
         client.send(data)
       } else {
-        this.clients.delete(cId)
-        this.ondisconnection?.(cId)
+        this.clients.delete(target)
+        this.ondisconnection?.(target)
+      }
+    } else {
+      for (const client of this.clients.values()) {
+        if (client.readyState === WebSocket.OPEN) client.send(data)
       }
     }
 
@@ -1,4 +1,10 @@
+/**
+ * Console-compatible logger. MCPClient calls every method as `(message, fields?)`,
+ * so structured loggers (winston, bunyan-style adapters) receive the fields as metadata.
+ */
 export interface Logger {
+  debug?: (...args: any[]) => void // Falls back to info, only when debug is enabled
   info: (...args: any[]) => void
+  warn?: (...args: any[]) => void // Falls back to error
   error: (...args: any[]) => void
 }